@@ -0,0 +1,85 @@
+/**
+ * House Edge Check CLI
+ * Plays many rounds of random bets against the bet-weighted crash generator
+ * and checks the realised house edge against the configured minimum. Exits
+ * non-zero when the minimum is not met with 95% confidence.
+ *
+ *   npm run house-edge -- --rounds 200000 --bankroll 10000
+ */
+
+import { parseArgs } from 'node:util';
+import { createRandomBets, HOUSE_EDGE_CONFIG, runHouseEdgeSimulation } from '../src/lib/house-edge';
+import { createSeededRandom } from '../src/lib/prng';
+
+const USAGE = `Usage: npm run house-edge -- [options]
+
+  --rounds <n>      Rounds to play (default 100000)
+  --seed <text>     Seed for crash points and bets (default "house-edge")
+  --bankroll <n>    Starting house bankroll in SOL (default 10000)
+  --json            Print the full result as JSON
+  --help`;
+
+const { values: args } = parseArgs({
+  options: {
+    rounds: { type: 'string', default: '100000' },
+    seed: { type: 'string', default: 'house-edge' },
+    bankroll: { type: 'string', default: '10000' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`❌ ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const toNumber = (name: string, value: string, { integer = false, min = 0 } = {}): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || (integer && !Number.isInteger(parsed))) {
+    fail(`--${name} must be ${integer ? 'an integer' : 'a number'} >= ${min}, got "${value}"`);
+  }
+  return parsed;
+};
+
+const percent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const main = () => {
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const rounds = toNumber('rounds', args.rounds, { integer: true, min: 1 });
+  const initialBankroll = toNumber('bankroll', args.bankroll, { min: 1 });
+  const startedAt = Date.now();
+
+  console.error(`🎲 Playing ${rounds.toLocaleString()} rounds...`);
+  const result = runHouseEdgeSimulation({
+    rounds,
+    random: createSeededRandom(args.seed),
+    initialBankroll,
+    createBets: createRandomBets,
+  });
+
+  if (args.json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    const { LOW, MEDIUM, HIGH } = result.roundsByRisk;
+    console.log(`Wagered          ${result.totalWagered.toFixed(2)} SOL`);
+    console.log(`Paid out         ${result.totalPaidOut.toFixed(2)} SOL`);
+    console.log(`Realised edge    ${percent(result.realizedHouseEdge)} ± ${percent(1.96 * result.standardError)} (95%)`);
+    console.log(`Minimum edge     ${percent(HOUSE_EDGE_CONFIG.minimumHouseEdge)}`);
+    console.log(`Bankroll         ${initialBankroll.toFixed(2)} → ${result.finalBankroll.toFixed(2)} SOL (low ${result.minBankroll.toFixed(2)})`);
+    console.log(`Rounds by risk   LOW ${LOW} · MEDIUM ${MEDIUM} · HIGH ${HIGH}`);
+  }
+
+  const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
+  if (!result.meetsMinimumEdge) {
+    console.error(`❌ Realised edge ${percent(result.realizedHouseEdge)} does not clear the ${percent(result.minimumHouseEdge)} minimum (${elapsed}s)`);
+    process.exit(1);
+  }
+  console.error(`✅ Realised edge clears the ${percent(result.minimumHouseEdge)} minimum (${elapsed}s)`);
+};
+
+main();
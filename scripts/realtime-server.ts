@@ -0,0 +1,90 @@
+/**
+ * Realtime Reference Server
+ * Runs the game engine in Node and streams its rounds over WebSocket, so
+ * several browser tabs can play the same rounds on one machine.
+ *
+ *   npm run server -- --port 8787
+ *   VITE_REALTIME_URL=ws://localhost:8787 npm run dev
+ */
+
+import { parseArgs } from 'node:util';
+import { WebSocketServer } from 'ws';
+import { ProvablyFair } from '../src/lib/fairness';
+import { DEFAULT_ENGINE_CONFIG } from '../src/lib/game-engine';
+import { PROTOCOL_VERSION } from '../src/lib/realtime-protocol';
+import { GameRoom } from '../src/lib/realtime-room';
+
+const USAGE = `Usage: npm run server -- [options]
+
+  --port <n>             Port to listen on (default 8787)
+  --host <address>       Interface to bind (default 0.0.0.0)
+  --client-seed <text>   Client seed for the round commitments (default random)
+  --distribution <name>  Crash distribution preset (default "default")
+  --tick-ms <n>          Tick length (default ${DEFAULT_ENGINE_CONFIG.tickMs})
+  --help`;
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+    host: { type: 'string', default: '0.0.0.0' },
+    'client-seed': { type: 'string' },
+    distribution: { type: 'string' },
+    'tick-ms': { type: 'string', default: String(DEFAULT_ENGINE_CONFIG.tickMs) },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`❌ ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const parsePositiveInt = (value: string, flag: string): number => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) fail(`${flag} must be a positive integer`);
+  return parsed;
+};
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+const port = parsePositiveInt(args.port, '--port');
+const tickMs = parsePositiveInt(args['tick-ms'], '--tick-ms');
+
+const fairness = new ProvablyFair(args['client-seed']);
+if (args.distribution) {
+  try {
+    fairness.setDistribution(args.distribution);
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+}
+
+const room = new GameRoom(fairness, { tickMs });
+const server = new WebSocketServer({ port, host: args.host });
+
+server.on('connection', (socket) => {
+  const playerId = room.connect({
+    send: (data) => socket.send(data),
+    close: () => socket.close(),
+  });
+  socket.on('message', (data) => room.receive(playerId, data.toString()));
+  socket.on('close', () => room.disconnect(playerId));
+});
+
+server.on('listening', () => {
+  console.log(`🌐 Realtime server (protocol v${PROTOCOL_VERSION}) on ws://${args.host}:${port}`);
+  room.start();
+});
+
+server.on('error', (error) => fail(error.message));
+
+const shutdown = () => {
+  console.log('🛑 Shutting down');
+  room.stop();
+  server.close(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
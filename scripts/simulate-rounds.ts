@@ -0,0 +1,221 @@
+/**
+ * Round Simulator CLI
+ * Runs the real crash generator and price paths for many rounds and prints
+ * crash-point and duration histograms plus EV per cash-out target.
+ *
+ *   npm run simulate -- --rounds 1000000 --path-rounds 5000 --distribution classic --format csv --out sim.csv
+ *
+ * Crash points are cheap; price paths are not (~17ms a round at the default
+ * cap), so only the first --path-rounds rounds get one. Path defaults are
+ * the game's own: PRICE_VOLATILITY and BASE_PRICE_INCREMENT in
+ * CrashChart.constants.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import { type CrashDistributionTable, registerDistributionPreset } from '../src/lib/crash-distribution';
+import { DEFAULT_ENGINE_CONFIG } from '../src/lib/game-engine';
+import { DEFAULT_TICK_PARAMS, type TickParams } from '../src/lib/price-path';
+import {
+  DEFAULT_MAX_TICKS,
+  DEFAULT_PATH_ROUNDS,
+  DEFAULT_TARGETS,
+  type HistogramBucket,
+  type RoundSimulationReport,
+  simulateRounds,
+} from '../src/lib/round-simulator';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --rounds <n>           Rounds to simulate (default 100000)
+  --seed <text>          Master seed (default "simulation")
+  --distribution <name>  Preset name or path to a JSON distribution table (default "default")
+  --targets <list>       Comma-separated cash-out targets (default ${DEFAULT_TARGETS.join(',')})
+  --path-rounds <n>      Rounds that get a price path; targets and durations come from these (default ${DEFAULT_PATH_ROUNDS}, ~17ms each)
+  --no-paths             Skip price paths: crash points only, no durations
+  --max-ticks <n>        Per-round tick cap (default ${DEFAULT_MAX_TICKS})
+  --tick-ms <n>          Tick length used for durations (default ${DEFAULT_ENGINE_CONFIG.tickMs})
+  --volatility <n>       PRICE_VOLATILITY (default ${DEFAULT_TICK_PARAMS.volatility})
+  --drift <n>            BASE_PRICE_INCREMENT (default ${DEFAULT_TICK_PARAMS.drift})
+  --trend-strength <n>   Other tick params, defaults from price-path.ts
+  --spike-chance <n>
+  --spike-size <n>
+  --min-price <n>
+  --format <json|csv>    Output format (default json)
+  --out <file>           Write to a file instead of stdout
+  --help`;
+
+const { values: args } = parseArgs({
+  options: {
+    rounds: { type: 'string', default: '100000' },
+    seed: { type: 'string', default: 'simulation' },
+    distribution: { type: 'string', default: 'default' },
+    targets: { type: 'string' },
+    'path-rounds': { type: 'string', default: String(DEFAULT_PATH_ROUNDS) },
+    'no-paths': { type: 'boolean', default: false },
+    'max-ticks': { type: 'string', default: String(DEFAULT_MAX_TICKS) },
+    'tick-ms': { type: 'string', default: String(DEFAULT_ENGINE_CONFIG.tickMs) },
+    volatility: { type: 'string' },
+    'trend-strength': { type: 'string' },
+    'spike-chance': { type: 'string' },
+    'spike-size': { type: 'string' },
+    drift: { type: 'string' },
+    'min-price': { type: 'string' },
+    format: { type: 'string', default: 'json' },
+    out: { type: 'string' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`❌ ${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+const toNumber = (name: string, value: string, { integer = false, min = 0 } = {}): number => {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || (integer && !Number.isInteger(parsed))) {
+    fail(`--${name} must be ${integer ? 'an integer' : 'a number'} >= ${min}, got "${value}"`);
+  }
+  return parsed;
+};
+
+// A name that is not a file is treated as a preset and resolved by the simulator
+const resolveDistribution = (value: string): string => {
+  if (!value.endsWith('.json')) return value;
+  try {
+    const table = JSON.parse(readFileSync(value, 'utf8')) as CrashDistributionTable;
+    const name = `file:${basename(value)}`;
+    registerDistributionPreset(name, table);
+    return name;
+  } catch (error) {
+    return fail(`Could not load ${value}: ${(error as Error).message}`);
+  }
+};
+
+const resolveTickParams = (): TickParams => {
+  const overrides: [keyof TickParams, string | undefined][] = [
+    ['volatility', args.volatility],
+    ['trendStrength', args['trend-strength']],
+    ['spikeChance', args['spike-chance']],
+    ['spikeSize', args['spike-size']],
+    ['drift', args.drift],
+    ['minPrice', args['min-price']],
+  ];
+  const params = { ...DEFAULT_TICK_PARAMS };
+  for (const [key, value] of overrides) {
+    if (value !== undefined) params[key] = toNumber(key, value);
+  }
+  return params;
+};
+
+const formatBucket = ({ min, max }: HistogramBucket) =>
+  Number.isFinite(max) ? `${min}-${max}` : `${min}+`;
+
+const round6 = (value: number) => Number(value.toFixed(6));
+
+// Sections as `# name` lines followed by a small table, separated by blank lines
+const toCsv = (report: RoundSimulationReport): string => {
+  const sections: string[][] = [];
+
+  sections.push([
+    '# summary',
+    'metric,value',
+    `rounds,${report.rounds}`,
+    `seed,${report.seed}`,
+    `distribution,${report.distribution}`,
+    `path_rounds,${report.pathRounds}`,
+    `mean_crash_point,${round6(report.crashPoints.mean)}`,
+    `median_crash_point,${round6(report.crashPoints.median)}`,
+    `below_1x,${round6(report.crashPoints.below1x)}`,
+    `theoretical_house_edge,${round6(report.crashPoints.theoreticalHouseEdge)}`,
+    `simulated_house_edge,${round6(report.houseEdge)}`,
+    `best_target,${report.bestTarget}`,
+  ]);
+
+  sections.push([
+    '# crash_points',
+    'bucket,min,max,count,share',
+    ...report.crashPoints.histogram.map(bucket =>
+      `${formatBucket(bucket)},${bucket.min},${bucket.max},${bucket.count},${round6(bucket.share)}`),
+  ]);
+
+  if (report.durations) {
+    const { histogram, ...stats } = report.durations;
+    sections.push([
+      '# durations',
+      'metric,value',
+      ...Object.entries(stats).map(([key, value]) => `${key},${round6(value)}`),
+    ]);
+    sections.push([
+      '# duration_histogram_seconds',
+      'bucket,min,max,count,share',
+      ...histogram.map(bucket =>
+        `${formatBucket(bucket)},${bucket.min},${bucket.max},${bucket.count},${round6(bucket.share)}`),
+    ]);
+  }
+
+  sections.push([
+    '# targets',
+    'target,reach_probability,rtp,expected_value,house_edge',
+    ...report.targets.map(t =>
+      `${t.target},${round6(t.reachProbability)},${round6(t.rtp)},${round6(t.expectedValue)},${round6(t.houseEdge)}`),
+  ]);
+
+  return `${sections.map(lines => lines.join('\n')).join('\n\n')}\n`;
+};
+
+const main = () => {
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const format = args.format;
+  if (format !== 'json' && format !== 'csv') fail(`--format must be json or csv, got "${format}"`);
+
+  const targets = args.targets
+    ? args.targets.split(',').map(value => toNumber('targets', value.trim(), { min: 1 }))
+    : DEFAULT_TARGETS;
+
+  const rounds = toNumber('rounds', args.rounds, { integer: true, min: 1 });
+  const startedAt = Date.now();
+
+  console.error(`🎲 Simulating ${rounds.toLocaleString()} rounds...`);
+  let report: RoundSimulationReport;
+  try {
+    report = simulateRounds({
+      rounds,
+      seed: args.seed,
+      distribution: resolveDistribution(args.distribution),
+      tickParams: resolveTickParams(),
+      tickMs: toNumber('tick-ms', args['tick-ms'], { min: 1 }),
+      maxTicks: toNumber('max-ticks', args['max-ticks'], { integer: true, min: 1 }),
+      simulatePaths: !args['no-paths'],
+      pathRounds: toNumber('path-rounds', args['path-rounds'], { integer: true, min: 1 }),
+      targets,
+      onProgress: (completed, total) => {
+        process.stderr.write(`\r   ${Math.round((completed / total) * 100)}% (${completed.toLocaleString()})`);
+      },
+    });
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+  process.stderr.write('\n');
+
+  const output = format === 'csv' ? toCsv(report) : `${JSON.stringify(report, null, 2)}\n`;
+  if (args.out) {
+    writeFileSync(args.out, output);
+    console.error(`💾 Wrote ${args.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+
+  console.error(`✅ Done in ${((Date.now() - startedAt) / 1000).toFixed(1)}s · house edge ${(report.houseEdge * 100).toFixed(2)}% (best target ${report.bestTarget}x)`);
+  if (report.durations && report.durations.truncatedRounds > 0) {
+    console.error(`⚠️ ${report.durations.truncatedRounds} rounds hit --max-ticks before crashing (left out of the duration stats)`);
+  }
+};
+
+main();
@@ -1,20 +1,44 @@
 import React from 'react';
 import { HashRouter as Router, Routes, Route } from 'react-router-dom';
+import { Toaster } from 'sonner';
 import MainLayout from './components/Layout/MainLayout';
+import FairnessVerifier from './components/Fairness/FairnessVerifier';
+import TradeHistory from './components/History/TradeHistory';
 import { BettingProvider } from './context/BettingContext';
+import { FairnessProvider } from './context/FairnessContext';
+import { GameEngineProvider } from './context/GameEngineContext';
+import { RealtimeProvider } from './context/RealtimeContext';
+import { RoundFairnessProvider } from './context/RoundFairnessContext';
+import { TransactionProvider } from './context/TransactionContext';
+import { WalletProvider } from './context/WalletContext';
 
 function App() {
   return (
-    <BettingProvider>
-      <Router>
-        <Routes>
-          <Route path="/" element={<MainLayout />} />
-          <Route path="/crates" element={<MainLayout />} />
-          <Route path="/leaderboard" element={<MainLayout />} />
-          <Route path="*" element={<MainLayout />} />
-        </Routes>
-      </Router>
-    </BettingProvider>
+    <FairnessProvider>
+      <RealtimeProvider>
+        <GameEngineProvider>
+          <RoundFairnessProvider>
+            <WalletProvider>
+              <BettingProvider>
+                <TransactionProvider>
+                  <Router>
+                    <Routes>
+                      <Route path="/" element={<MainLayout />} />
+                      <Route path="/crates" element={<MainLayout />} />
+                      <Route path="/leaderboard" element={<MainLayout />} />
+                      <Route path="/fairness" element={<FairnessVerifier />} />
+                      <Route path="/history" element={<TradeHistory />} />
+                      <Route path="*" element={<MainLayout />} />
+                    </Routes>
+                  </Router>
+                  <Toaster theme="dark" position="bottom-right" richColors />
+                </TransactionProvider>
+              </BettingProvider>
+            </WalletProvider>
+          </RoundFairnessProvider>
+        </GameEngineProvider>
+      </RealtimeProvider>
+    </FairnessProvider>
   );
 }
 
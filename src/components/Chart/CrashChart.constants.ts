@@ -18,8 +18,9 @@ export const CRASH_DISPLAY_DURATION_MS = 2000;
 export const PRE_GAME_DELAY_MS = 1000;        // Delay before first game starts
 
 // ===== PRICE MOVEMENT =====
-export const BASE_PRICE_INCREMENT = 0.005;    // Base price increase per tick
-export const PRICE_VOLATILITY = 0.01;         // Random price variation
+// Feed DEFAULT_TICK_PARAMS in lib/price-path.ts; changing them changes every seeded path
+export const BASE_PRICE_INCREMENT = 0;        // Per-tick drift toward the crash point (0 = pure random walk)
+export const PRICE_VOLATILITY = 0.016;        // Scale of per-tick noise and trend
 export const PRICE_MOMENTUM_FACTOR = 0.02;    // Trend momentum
 
 // ===== VISUAL CONSTANTS =====
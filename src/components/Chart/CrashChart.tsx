@@ -5,18 +5,22 @@
  * - 5 ticks per candle (1.25s)
  * - 60fps render with linear interpolation
  * - Canvas2D rendering
+ * - Round lifecycle driven by GameEngine events
  */
 
 import type React from 'react';
 import { useState, useEffect, useRef } from 'react';
 import { useBetting } from '../../context/BettingContext';
+import { useGameEngine } from '../../context/GameEngineContext';
+import { useRoundFairness } from '../../context/RoundFairnessContext';
+import type { CandleData } from './CrashChart.types';
+import NetworkDebugOverlay from './NetworkDebugOverlay';
 
 // ===== CONSTANTS =====
-const TICK_MS = 80;                      // ~8ms tick rate (~120Hz) - ultra smooth
-const TICKS_PER_CANDLE = 65;           // 375 ticks = 3 second candles at 120Hz
+// Tick rate, candle size and countdown now live in the GameEngine config
 const INTERPOLATION_SPEED = .15;        // Faster interpolation to match 120Hz
-const INITIAL_PRICE = 1.0;
-const COUNTDOWN_SECONDS = 5;
+const CANDLE_ANIM_SPEED = 0.4;          // Smooth interpolation factor for animated candle values
+const MAX_CANDLES = 50;
 
 const COLORS = {
     BACKGROUND: '#15161D',              // Rugs.fun spec
@@ -24,29 +28,41 @@ const COLORS = {
     BEARISH: '#FF1744',                 // Material Red
     GRID: 'rgba(255, 255, 255, 0.07)',
     TEXT: 'rgba(255, 255, 255, 0.6)',
+    ENTRY: '#FFC107',                   // Material Amber - average entry line
 };
 
 // ===== TYPES =====
-interface Candle {
-    open: number;
-    high: number;
-    low: number;
-    close: number;
-    ticks: number;
+interface Candle extends CandleData {
+    index: number;
     // Animated values for smooth rendering
     animatedHigh: number;
     animatedLow: number;
     animatedClose: number;
 }
 
+const toSnappedCandle = (candle: CandleData, index: number): Candle => ({
+    ...candle,
+    index,
+    animatedHigh: candle.high,
+    animatedLow: candle.low,
+    animatedClose: candle.close,
+});
+
 // ===== COMPONENT =====
 const CrashChart: React.FC = () => {
-    const { setGameState: syncToBetting } = useBetting();
-
-    // Game state
-    const [phase, setPhase] = useState<'waiting' | 'running' | 'crashed'>('waiting');
-    const [targetPrice, setTargetPrice] = useState(INITIAL_PRICE);  // Actual game price (updates at 4Hz)
-    const [displayPrice, setDisplayPrice] = useState(INITIAL_PRICE); // Interpolated display price (60fps)
+    const engine = useGameEngine();
+    const { commitment } = useRoundFairness();
+    const { playerBet } = useBetting();
+    const stopLossLevel = playerBet.isActive && playerBet.stopLoss !== undefined
+        ? playerBet.entryMultiplier * playerBet.stopLoss
+        : null;
+    const entryLevel = playerBet.isActive ? playerBet.entryMultiplier : null;
+    const initialPrice = engine.config.initialMultiplier;
+
+    // Game state (mirrored from the engine)
+    const [phase, setPhase] = useState<'waiting' | 'running' | 'crashed'>(() => engine.getState().phase);
+    const [targetPrice, setTargetPrice] = useState(initialPrice);  // Actual game price (updates every tick)
+    const [displayPrice, setDisplayPrice] = useState(initialPrice); // Interpolated display price (60fps)
     const [crashPoint, setCrashPoint] = useState(0);
     const [countdown, setCountdown] = useState(0);
     const [candles, setCandles] = useState<Candle[]>([]);
@@ -57,38 +73,76 @@ const CrashChart: React.FC = () => {
     const phaseRef = useRef(phase);
     const targetPriceRef = useRef(targetPrice);
     const candlesRef = useRef(candles);
+    const stopLossRef = useRef(stopLossLevel);
+    const entryRef = useRef(entryLevel);
 
     // Keep refs in sync
     useEffect(() => { phaseRef.current = phase; }, [phase]);
     useEffect(() => { targetPriceRef.current = targetPrice; }, [targetPrice]);
     useEffect(() => { candlesRef.current = candles; }, [candles]);
+    useEffect(() => { stopLossRef.current = stopLossLevel; }, [stopLossLevel]);
+    useEffect(() => { entryRef.current = entryLevel; }, [entryLevel]);
 
-    // Generate crash point
-    const generateCrashPoint = () => {
-        const r = Math.random();
-        if (r < 0.3) return 0.5 + Math.random() * 0.49;
-        if (r < 0.7) return 1.01 + Math.random() * 1.5;
-        if (r < 0.9) return 2.5 + Math.random() * 5;
-        return 7.5 + Math.random() * 15;
-    };
-
-    // Start game
-    const startGame = () => {
-        const newCrashPoint = generateCrashPoint();
-        console.log(`🎮 Starting game, crash at ${newCrashPoint.toFixed(2)}x`);
-
-        setCrashPoint(newCrashPoint);
-        setTargetPrice(INITIAL_PRICE);
-        setDisplayPrice(INITIAL_PRICE);
-        setPhase('running');
-        setCountdown(0);
-        setCandles([{
-            open: INITIAL_PRICE, high: INITIAL_PRICE, low: INITIAL_PRICE, close: INITIAL_PRICE, ticks: 0,
-            animatedHigh: INITIAL_PRICE, animatedLow: INITIAL_PRICE, animatedClose: INITIAL_PRICE
-        }]);
-
-        syncToBetting({ isGameActive: true, currentMultiplier: INITIAL_PRICE, crashPoint: newCrashPoint });
-    };
+    // ===== ENGINE SUBSCRIPTION =====
+    useEffect(() => {
+        const unsubscribers = [
+            engine.on('roundStart', ({ roundNumber, commitment: roundCommitment, crashPoint: newCrashPoint, multiplier }) => {
+                console.log(`🎮 Starting game #${roundNumber}, hash ${roundCommitment.serverSeedHash.slice(0, 12)}…`);
+                setCrashPoint(newCrashPoint);
+                setTargetPrice(multiplier);
+                setDisplayPrice(multiplier);
+                setPhase('running');
+                setCountdown(0);
+                setCandles(engine.getCandles().map((candle, i) => toSnappedCandle(candle, i)));
+            }),
+
+            engine.on('candleClosed', ({ candle, candleIndex }) => {
+                // Snap animated to actual on finalize
+                setCandles(prev => prev.map(c => c.index === candleIndex ? toSnappedCandle(candle, candleIndex) : c));
+            }),
+
+            engine.on('tick', ({ multiplier, candle, candleIndex }) => {
+                setTargetPrice(multiplier);
+                setCandles(prev => {
+                    const last = prev[prev.length - 1];
+                    if (!last || last.index !== candleIndex) {
+                        return [...prev, toSnappedCandle(candle, candleIndex)].slice(-MAX_CANDLES);
+                    }
+
+                    // Interpolate animated values toward actual values
+                    return [...prev.slice(0, -1), {
+                        ...last,
+                        ...candle,
+                        animatedHigh: last.animatedHigh + (candle.high - last.animatedHigh) * CANDLE_ANIM_SPEED,
+                        animatedLow: last.animatedLow + (candle.low - last.animatedLow) * CANDLE_ANIM_SPEED,
+                        animatedClose: last.animatedClose + (candle.close - last.animatedClose) * CANDLE_ANIM_SPEED,
+                    }];
+                });
+            }),
+
+            engine.on('crash', ({ crashPoint: finalCrashPoint, revealed }) => {
+                console.log(`💥 CRASH at ${finalCrashPoint.toFixed(2)}x`);
+                if (revealed) console.log(`🔓 Server seed revealed: ${revealed.serverSeed}`);
+                const lastPrice = targetPriceRef.current;
+                setPhase('crashed');
+                // Online rounds start without a crash point; it is only known now
+                setCrashPoint(finalCrashPoint);
+                // Snap rather than ease: the crash point is final
+                setTargetPrice(finalCrashPoint);
+                setDisplayPrice(finalCrashPoint);
+                setCandles(prev => [...prev, {
+                    open: lastPrice, high: lastPrice, low: 0, close: 0, time: Date.now(), tickCount: 0, index: -1,
+                    animatedHigh: lastPrice, animatedLow: 0, animatedClose: 0
+                }]);
+            }),
+
+            engine.on('countdown', ({ secondsLeft }) => setCountdown(secondsLeft)),
+        ];
+
+        return () => {
+            for (const unsubscribe of unsubscribers) unsubscribe();
+        };
+    }, [engine]);
 
     // ===== 60FPS RENDER LOOP WITH LINEAR INTERPOLATION =====
     useEffect(() => {
@@ -117,6 +171,8 @@ const CrashChart: React.FC = () => {
             const currentDisplayPrice = displayPrice;
             const currentCandles = candlesRef.current;
             const currentPhase = phaseRef.current;
+            const currentStopLoss = stopLossRef.current;
+            const currentEntry = entryRef.current;
 
             // Canvas setup
             const rect = canvas.getBoundingClientRect();
@@ -150,6 +206,15 @@ const CrashChart: React.FC = () => {
                 }
             }
 
+            // Keep the entry and stop-loss markers on screen
+            if (currentStopLoss !== null) {
+                minP = Math.min(minP, currentStopLoss * 0.95);
+            }
+            if (currentEntry !== null) {
+                minP = Math.min(minP, currentEntry * 0.95);
+                maxP = Math.max(maxP, currentEntry * 1.05);
+            }
+
             const range = maxP - minP || 0.1;
             const toY = (p: number) => h - pad - ((p - minP) / range) * (h - 2 * pad);
 
@@ -223,6 +288,42 @@ const CrashChart: React.FC = () => {
                 ctx.fillText(`${currentDisplayPrice.toFixed(2)}x`, w - padRight + 5, y + 4);
             }
 
+            // Weighted average entry line (active position only)
+            if (currentPhase === 'running' && currentEntry !== null) {
+                const y = toY(currentEntry);
+                ctx.strokeStyle = COLORS.ENTRY;
+                ctx.lineWidth = 1;
+                ctx.setLineDash([8, 4]);
+                ctx.beginPath();
+                ctx.moveTo(pad, y);
+                ctx.lineTo(w - padRight, y);
+                ctx.stroke();
+                ctx.setLineDash([]);
+
+                ctx.fillStyle = COLORS.ENTRY;
+                ctx.font = 'bold 10px monospace';
+                ctx.textAlign = 'left';
+                ctx.fillText(`AVG ${currentEntry.toFixed(2)}x`, pad + 4, y - 4);
+            }
+
+            // Stop-loss marker (active bet only)
+            if (currentPhase === 'running' && currentStopLoss !== null) {
+                const y = toY(currentStopLoss);
+                ctx.strokeStyle = COLORS.BEARISH;
+                ctx.lineWidth = 1;
+                ctx.setLineDash([2, 4]);
+                ctx.beginPath();
+                ctx.moveTo(pad, y);
+                ctx.lineTo(w - padRight, y);
+                ctx.stroke();
+                ctx.setLineDash([]);
+
+                ctx.fillStyle = COLORS.BEARISH;
+                ctx.font = 'bold 10px monospace';
+                ctx.textAlign = 'left';
+                ctx.fillText(`SL ${currentStopLoss.toFixed(2)}x`, pad + 4, y - 4);
+            }
+
             renderLoopRef.current = requestAnimationFrame(render);
         };
 
@@ -233,121 +334,6 @@ const CrashChart: React.FC = () => {
         };
     }, [displayPrice]);
 
-    // ===== GAME TICK (250ms / 4Hz) =====
-    useEffect(() => {
-        if (phase !== 'running') return;
-
-        const interval = setInterval(() => {
-            setTargetPrice(prev => {
-                // Lower volatility for 120Hz - smaller per-tick movements
-                const volatility = 0.016;                    // Much lower for 120Hz
-                const trend = (Math.random() - 0.5) * 0.3;   // Smaller trend
-                const spike = Math.random() < 0.02 ? (Math.random() - 0.5) * 0.22 : 0; // Rare small spikes
-                const noise = (Math.random() - 0.5) * volatility;
-                const momentum = trend * volatility + noise + spike;
-                const newPrice = Math.max(0.01, prev + momentum);
-
-                // Check crash
-                if ((crashPoint < 1 && newPrice <= crashPoint) || (crashPoint >= 1 && newPrice >= crashPoint)) {
-                    console.log(`💥 CRASH at ${newPrice.toFixed(2)}x`);
-                    setPhase('crashed');
-                    syncToBetting({ isGameActive: false, currentMultiplier: crashPoint, crashPoint });
-                    setCandles(prev => [...prev, {
-                        open: newPrice, high: newPrice, low: 0, close: 0, ticks: 0,
-                        animatedHigh: newPrice, animatedLow: 0, animatedClose: 0
-                    }]);
-                    setTimeout(() => setCountdown(COUNTDOWN_SECONDS), 2000);
-                    return crashPoint;
-                }
-
-                // Update candles with animated values
-                setCandles(prev => {
-                    if (prev.length === 0) return [{
-                        open: newPrice, high: newPrice, low: newPrice, close: newPrice, ticks: 1,
-                        animatedHigh: newPrice, animatedLow: newPrice, animatedClose: newPrice
-                    }];
-
-                    const last = prev[prev.length - 1];
-                    const newTicks = last.ticks + 1;
-
-                    // Limit wick length - max extension from body
-                    const wickLimit = 0.015;
-                    const bodyHigh = Math.max(last.open, newPrice);
-                    const bodyLow = Math.min(last.open, newPrice);
-                    const maxHigh = bodyHigh + wickLimit;
-                    const maxLow = bodyLow - wickLimit;
-
-                    // Calculate actual high/low
-                    const actualHigh = Math.min(Math.max(last.high, newPrice), maxHigh);
-                    const actualLow = Math.max(Math.min(last.low, newPrice), maxLow);
-
-                    // Smooth interpolation factor for animated values
-                    const animSpeed = 0.4;
-
-                    if (newTicks >= TICKS_PER_CANDLE) {
-                        const finalized: Candle = {
-                            ...last,
-                            close: newPrice,
-                            high: actualHigh,
-                            low: actualLow,
-                            ticks: newTicks,
-                            // Snap animated to actual on finalize
-                            animatedHigh: actualHigh,
-                            animatedLow: actualLow,
-                            animatedClose: newPrice
-                        };
-                        const newCandle: Candle = {
-                            open: newPrice, high: newPrice, low: newPrice, close: newPrice, ticks: 0,
-                            animatedHigh: newPrice, animatedLow: newPrice, animatedClose: newPrice
-                        };
-                        return [...prev.slice(0, -1), finalized, newCandle].slice(-50);
-                    }
-
-                    // Interpolate animated values toward actual values
-                    return [...prev.slice(0, -1), {
-                        ...last,
-                        high: actualHigh,
-                        low: actualLow,
-                        close: newPrice,
-                        ticks: newTicks,
-                        // Smooth animation toward target values
-                        animatedHigh: last.animatedHigh + (actualHigh - last.animatedHigh) * animSpeed,
-                        animatedLow: last.animatedLow + (actualLow - last.animatedLow) * animSpeed,
-                        animatedClose: last.animatedClose + (newPrice - last.animatedClose) * animSpeed,
-                    }];
-                });
-
-                syncToBetting({ isGameActive: true, currentMultiplier: newPrice, crashPoint });
-                return newPrice;
-            });
-        }, TICK_MS);
-
-        return () => clearInterval(interval);
-    }, [phase, crashPoint, syncToBetting]);
-
-    // Countdown effect
-    useEffect(() => {
-        if (countdown <= 0) return;
-
-        const timer = setInterval(() => {
-            setCountdown(prev => {
-                if (prev <= 1) {
-                    startGame();
-                    return 0;
-                }
-                return prev - 1;
-            });
-        }, 1000);
-
-        return () => clearInterval(timer);
-    }, [countdown]);
-
-    // Initial start
-    useEffect(() => {
-        const timer = setTimeout(startGame, 1000);
-        return () => clearTimeout(timer);
-    }, []);
-
     return (
         <div className="relative w-full h-[400px] rounded-lg overflow-hidden" style={{ background: COLORS.BACKGROUND }}>
             {/* Status */}
@@ -366,6 +352,15 @@ const CrashChart: React.FC = () => {
             {/* Canvas */}
             <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
 
+            {/* Fairness commitment for the current/next round */}
+            {commitment && (
+                <div className="absolute bottom-2 left-4 z-10 text-[10px] font-mono text-gray-500" title={commitment.serverSeedHash}>
+                    #{commitment.nonce} · hash {commitment.serverSeedHash.slice(0, 16)}…
+                </div>
+            )}
+
+            <NetworkDebugOverlay />
+
             {/* Crash overlay */}
             {phase === 'crashed' && (
                 <div className="absolute inset-0 flex items-center justify-center z-20 bg-black/50">
@@ -0,0 +1,64 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { useRealtime } from '../../context/RealtimeContext';
+import type { RealtimeNetworkStats } from '../../lib/realtime-client';
+
+const REFRESH_MS = 250;
+const DELAY_STEP_MS = 25;
+
+const formatMs = (value: number | null) => value === null ? '—' : `${Math.round(value)}ms`;
+
+// Latency, clock offset and jitter buffer of the realtime connection. Only
+// rendered when rounds come from a server.
+const NetworkDebugOverlay: React.FC = () => {
+  const { client, status } = useRealtime();
+  const [open, setOpen] = useState(false);
+  const [stats, setStats] = useState<RealtimeNetworkStats | null>(null);
+
+  useEffect(() => {
+    if (!client || !open) return;
+    const refresh = () => setStats(client.getNetworkStats());
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [client, open]);
+
+  if (!client) return null;
+
+  const changeDelay = (delta: number) => {
+    client.setPlaybackDelay(client.getNetworkStats().playbackDelayMs + delta);
+    setStats(client.getNetworkStats());
+  };
+
+  return (
+    <div className="absolute bottom-2 right-4 z-30 text-[10px] font-mono text-gray-300">
+      {open && stats && (
+        <div className="mb-1 bg-black/80 border border-border-light rounded p-2 space-y-0.5 min-w-[170px]">
+          <div className="flex justify-between"><span>Status</span><span>{status}</span></div>
+          <div className="flex justify-between"><span>Latency</span><span>{formatMs(stats.latencyMs)}</span></div>
+          <div className="flex justify-between"><span>Clock offset</span><span>{formatMs(stats.clockOffsetMs)}</span></div>
+          <div className="flex justify-between"><span>Buffer</span><span>{stats.depth} ticks · {formatMs(stats.bufferedMs)}</span></div>
+          <div className="flex justify-between items-center">
+            <span>Playback delay</span>
+            <span>
+              <button onClick={() => changeDelay(-DELAY_STEP_MS)} className="px-1 hover:text-white">−</button>
+              {formatMs(stats.playbackDelayMs)}
+              <button onClick={() => changeDelay(DELAY_STEP_MS)} className="px-1 hover:text-white">+</button>
+            </span>
+          </div>
+          <div className="flex justify-between"><span>Received</span><span>{stats.received}</span></div>
+          <div className="flex justify-between"><span>Dropped</span><span>{stats.dropped}</span></div>
+          <div className="flex justify-between"><span>Gap-filled</span><span>{stats.filled}</span></div>
+          <div className="flex justify-between"><span>Fast-forwarded</span><span>{stats.fastForwarded}</span></div>
+        </div>
+      )}
+      <div className="text-right">
+        <button onClick={() => setOpen(prev => !prev)} className="text-gray-500 hover:text-white">
+          {open ? 'hide net' : 'net'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkDebugOverlay;
@@ -0,0 +1,296 @@
+import type React from 'react';
+import { useState } from 'react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useFairness } from '../../context/FairnessContext';
+import { useRoundFairness } from '../../context/RoundFairnessContext';
+import { DISTRIBUTION_PRESETS, getDistributionStats } from '../../lib/crash-distribution';
+import { verifyRound, type RevealedRound, type RoundVerification } from '../../lib/fairness';
+import Header from '../Layout/Header';
+
+const MAX_CHART_POINTS = 400;
+
+type VerifierForm = {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: string;
+  serverSeedHash: string;
+  distribution: string;    // Empty = the played round's preset
+};
+
+const EMPTY_FORM: VerifierForm = { serverSeed: '', clientSeed: '', nonce: '', serverSeedHash: '', distribution: '' };
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+// Thin out long paths so the chart stays responsive
+const toChartData = (path: number[]) => {
+  const step = Math.max(1, Math.ceil(path.length / MAX_CHART_POINTS));
+  const data: { tick: number; multiplier: number }[] = [];
+  for (let i = 0; i < path.length; i += step) {
+    data.push({ tick: i + 1, multiplier: path[i] });
+  }
+  if (path.length > 0 && data[data.length - 1].tick !== path.length) {
+    data.push({ tick: path.length, multiplier: path[path.length - 1] });
+  }
+  return data;
+};
+
+const CheckBadge: React.FC<{ label: string; value: boolean | null }> = ({ label, value }) => {
+  const color = value === null ? 'bg-gray-700 text-gray-300' : value ? 'bg-green-900 text-green-400' : 'bg-red-900 text-red-400';
+  const text = value === null ? 'N/A' : value ? 'MATCH' : 'MISMATCH';
+  return (
+    <div className="flex items-center justify-between bg-[#0e0c0d] border border-border-light rounded p-2">
+      <span className="text-gray-300 text-sm">{label}</span>
+      <span className={`text-xs font-bold px-2 py-1 rounded ${color}`}>{text}</span>
+    </div>
+  );
+};
+
+const Field: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}> = ({ label, value, onChange, placeholder, disabled }) => (
+  <label className="block">
+    <span className="text-gray-400 text-sm">{label}</span>
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      className="mt-1 bg-[#0e0c0d] text-white w-full py-2 px-3 rounded outline-none border border-border-light font-mono text-sm disabled:opacity-60"
+    />
+  </label>
+);
+
+const FairnessVerifier: React.FC = () => {
+  const { clientSeed, setClientSeed, distribution: localDistribution } = useFairness();
+  const { commitment, revealedRounds, findRound, seedsFromServer } = useRoundFairness();
+  // A server may run a preset this build does not know; skip its stats then
+  const distribution = seedsFromServer ? commitment?.distribution ?? localDistribution : localDistribution;
+  const distributionTable = Object.prototype.hasOwnProperty.call(DISTRIBUTION_PRESETS, distribution)
+    ? DISTRIBUTION_PRESETS[distribution]
+    : null;
+  const distributionStats = distributionTable ? getDistributionStats(distributionTable) : null;
+
+  const [form, setForm] = useState<VerifierForm>(EMPTY_FORM);
+  const [clientSeedDraft, setClientSeedDraft] = useState(clientSeed);
+  const [result, setResult] = useState<RoundVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateField = (field: keyof VerifierForm) => (value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const loadRound = (round: RevealedRound) => {
+    setForm({
+      serverSeed: round.serverSeed,
+      clientSeed: round.clientSeed,
+      nonce: round.nonce.toString(),
+      serverSeedHash: round.serverSeedHash,
+      distribution: round.distribution,
+    });
+    setResult(null);
+    setError(null);
+  };
+
+  const handleVerify = () => {
+    const nonce = Number.parseInt(form.nonce, 10);
+    if (!form.serverSeed.trim() || !form.clientSeed.trim() || Number.isNaN(nonce) || nonce < 0) {
+      setError('Server seed, client seed and a non-negative nonce are required');
+      setResult(null);
+      return;
+    }
+
+    const serverSeedHash = form.serverSeedHash.trim();
+    const playedRound = serverSeedHash
+      ? revealedRounds.find(round => round.serverSeedHash === serverSeedHash.toLowerCase()) ?? null
+      : findRound(nonce);
+
+    setError(null);
+    setResult(verifyRound({
+      serverSeed: form.serverSeed.trim(),
+      clientSeed: form.clientSeed.trim(),
+      nonce,
+      serverSeedHash: serverSeedHash || undefined,
+      distribution: form.distribution || undefined,
+    }, playedRound));
+  };
+
+  const handleSaveClientSeed = () => {
+    try {
+      setClientSeed(clientSeedDraft);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Invalid client seed');
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-[#0e0c0d]">
+      <Header />
+
+      <main className="flex-1 grid grid-cols-12 gap-4 p-4">
+        {/* Seeds for the next round and recently revealed rounds */}
+        <div className="col-span-4 space-y-4">
+          <div className="border border-border-light rounded-lg p-4">
+            <h2 className="text-white text-xl font-bold mb-4">Current Seeds</h2>
+            {commitment ? (
+              <>
+                <div className="text-gray-400 text-sm">Server seed hash (round #{commitment.nonce})</div>
+                <div className="text-white font-mono text-xs break-all mb-4">{commitment.serverSeedHash}</div>
+              </>
+            ) : (
+              <div className="text-gray-400 text-sm mb-4">Waiting for the server to commit to a round…</div>
+            )}
+
+            {seedsFromServer ? (
+              <Field label="Client seed (set by the server)" value={commitment?.clientSeed ?? ''} onChange={() => {}} disabled />
+            ) : (
+              <>
+                <Field label="Client seed (applies from the next round)" value={clientSeedDraft} onChange={setClientSeedDraft} />
+                <button
+                  onClick={handleSaveClientSeed}
+                  disabled={clientSeedDraft.trim() === clientSeed}
+                  className="mt-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm transition-colors"
+                >
+                  Save client seed
+                </button>
+              </>
+            )}
+
+            <div className="text-gray-400 text-sm mt-4">Crash distribution: <span className="text-white">{distribution}</span></div>
+            {distributionStats && (
+              <div className="grid grid-cols-2 gap-1 mt-2 text-xs">
+                <span className="text-gray-400">Expected crash</span>
+                <span className="text-white text-right">{distributionStats.expectedCrashPoint.toFixed(2)}x</span>
+                <span className="text-gray-400">Below 1x</span>
+                <span className="text-white text-right">{formatPercent(distributionStats.probabilityBelow1x)}</span>
+                <span className="text-gray-400">Best target</span>
+                <span className="text-white text-right">{distributionStats.bestTarget.toFixed(2)}x</span>
+                <span className="text-gray-400">House edge</span>
+                <span className="text-white text-right">{formatPercent(distributionStats.houseEdge)}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="border border-border-light rounded-lg p-4">
+            <h2 className="text-white text-xl font-bold mb-4">Revealed Rounds</h2>
+            {revealedRounds.length === 0 && (
+              <div className="text-gray-400 text-sm">Seeds are revealed as soon as a round crashes.</div>
+            )}
+            <div className="space-y-2 max-h-96 overflow-y-auto scrollbar-minimal">
+              {revealedRounds.map(round => (
+                <button
+                  key={round.serverSeedHash}
+                  onClick={() => loadRound(round)}
+                  className="w-full flex items-center justify-between bg-[#0e0c0d] border border-border-light p-2 rounded-md hover:bg-gray-800 text-left"
+                >
+                  <span className="text-gray-400">#{round.nonce}</span>
+                  <span className="text-gray-500 font-mono text-xs">{round.serverSeedHash.slice(0, 12)}…</span>
+                  <span className={round.crashPoint >= 1 ? 'text-green-500' : 'text-red-500'}>
+                    {round.crashPoint.toFixed(2)}x
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Verifier */}
+        <div className="col-span-8 border border-border-light rounded-lg p-4">
+          <h2 className="text-white text-xl font-bold mb-1">Verify a Round</h2>
+          <p className="text-gray-400 text-sm mb-4">
+            Crash point = HMAC-SHA256(server seed, "client seed:nonce:cursor"). The price path is seeded
+            with HMAC-SHA256(server seed, "client seed:nonce:path"), so every tick can be replayed.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Field label="Server seed (revealed)" value={form.serverSeed} onChange={updateField('serverSeed')} />
+            <Field label="Server seed hash (optional)" value={form.serverSeedHash} onChange={updateField('serverSeedHash')} />
+            <Field label="Client seed" value={form.clientSeed} onChange={updateField('clientSeed')} />
+            <Field label="Nonce" value={form.nonce} onChange={updateField('nonce')} placeholder="0" />
+            <label className="block">
+              <span className="text-gray-400 text-sm">Crash distribution</span>
+              <select
+                value={form.distribution}
+                onChange={(e) => updateField('distribution')(e.target.value)}
+                className="mt-1 bg-[#0e0c0d] text-white w-full py-2 px-3 rounded outline-none border border-border-light text-sm"
+              >
+                <option value="">Same as played round</option>
+                {Object.keys(DISTRIBUTION_PRESETS).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <button onClick={handleVerify} className="buy-button mt-4 px-8 text-lg">
+            VERIFY
+          </button>
+
+          {error && <div className="mt-4 text-red-400 text-sm">{error}</div>}
+
+          {result && (
+            <div className="mt-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div className="bg-[#1a1a1a] border border-border-light rounded-lg p-3">
+                  <div className="text-gray-400 text-sm">Crash point</div>
+                  <div className={`text-2xl font-bold ${result.crashPoint >= 1 ? 'text-green-400' : 'text-red-400'}`}>
+                    {result.crashPoint.toFixed(2)}x
+                  </div>
+                </div>
+                <div className="bg-[#1a1a1a] border border-border-light rounded-lg p-3">
+                  <div className="text-gray-400 text-sm">Ticks</div>
+                  <div className="text-2xl font-bold text-white">
+                    {result.path.length}{!result.pathComplete && '+'}
+                  </div>
+                </div>
+                <div className="bg-[#1a1a1a] border border-border-light rounded-lg p-3">
+                  <div className="text-gray-400 text-sm">Played round</div>
+                  <div className="text-2xl font-bold text-white">
+                    {result.playedRound ? `#${result.playedRound.nonce}` : 'Not found'}
+                  </div>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <CheckBadge label="Server seed hash" value={result.hashMatches} />
+                <CheckBadge label="Crash point" value={result.crashPointMatches} />
+                <CheckBadge label="Price path" value={result.pathMatches} />
+              </div>
+
+              <div className="text-gray-400 text-xs font-mono break-all">Path seed: {result.pathSeed}</div>
+
+              {result.firstMismatchTick !== null && (
+                <div className="text-red-400 text-sm">Paths diverge at tick {result.firstMismatchTick + 1}.</div>
+              )}
+              {!result.pathComplete && (
+                <div className="text-yellow-400 text-sm">Replay stopped after {result.path.length} ticks before reaching the crash point.</div>
+              )}
+
+              <div className="h-64 bg-[#15161D] rounded-lg p-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={toChartData(result.path)}>
+                    <XAxis dataKey="tick" stroke="rgba(255,255,255,0.6)" fontSize={10} />
+                    <YAxis stroke="rgba(255,255,255,0.6)" fontSize={10} domain={['auto', 'auto']} tickFormatter={(v: number) => `${v.toFixed(2)}x`} />
+                    <Tooltip
+                      contentStyle={{ background: '#0e0c0d', border: '1px solid #333' }}
+                      formatter={(v: number) => [`${v.toFixed(4)}x`, 'Multiplier']}
+                      labelFormatter={(tick) => `Tick ${tick}`}
+                    />
+                    <ReferenceLine y={1} stroke="rgba(255,255,255,0.3)" strokeDasharray="4 4" />
+                    <Line type="linear" dataKey="multiplier" stroke="#00C853" dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default FairnessVerifier;
@@ -0,0 +1,309 @@
+import type React from 'react';
+import { useMemo, useState } from 'react';
+import type { RoundSettlement, SettlementOutcome } from '../../context/BettingContext.types';
+import { useBetting } from '../../context/BettingContext';
+import { useRoundLedger } from '../../hooks/useRoundLedger';
+import { ASSET_IDS, ASSETS, type AssetId } from '../../lib/assets';
+import { downloadFile, settlementsToCsv, settlementsToJson } from '../../lib/ledger-export';
+import { filterSettlements, type LedgerFilters, summarizeSettlements } from '../../lib/round-ledger';
+import Header from '../Layout/Header';
+
+const PAGE_SIZE = 20;
+
+type FilterForm = {
+  from: string;            // yyyy-mm-dd, empty = open
+  to: string;
+  asset: AssetId;          // Always one asset - totals are not summed across assets
+  outcome: '' | SettlementOutcome;
+  minCrashPoint: string;
+  maxCrashPoint: string;
+};
+
+const emptyFilters = (asset: AssetId): FilterForm => ({
+  from: '',
+  to: '',
+  asset,
+  outcome: '',
+  minCrashPoint: '',
+  maxCrashPoint: ''
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseNumber = (value: string): number | undefined => {
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// Dates are local days; `to` includes the whole selected day
+const toLedgerFilters = (form: FilterForm): LedgerFilters => ({
+  from: form.from ? new Date(`${form.from}T00:00:00`).getTime() : undefined,
+  to: form.to ? new Date(`${form.to}T00:00:00`).getTime() + DAY_MS : undefined,
+  asset: form.asset,
+  outcome: form.outcome || undefined,
+  minCrashPoint: parseNumber(form.minCrashPoint),
+  maxCrashPoint: parseNumber(form.maxCrashPoint),
+});
+
+const formatAmount = (value: number, asset: AssetId) => value.toFixed(ASSETS[asset].displayDecimals);
+const formatSigned = (value: number, asset: AssetId) => `${value >= 0 ? '+' : ''}${formatAmount(value, asset)}`;
+
+const OUTCOME_STYLES: Record<SettlementOutcome, string> = {
+  won: 'bg-green-900 text-green-400',
+  lost: 'bg-gray-700 text-gray-300',
+  crashed: 'bg-red-900 text-red-400',
+};
+
+const inputClass = 'mt-1 bg-[#0e0c0d] text-white w-full py-2 px-3 rounded outline-none border border-border-light text-sm';
+
+const Stat: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-white' }) => (
+  <div className="bg-[#0e0c0d] border border-border-light rounded p-3">
+    <div className="text-gray-400 text-xs">{label}</div>
+    <div className={`text-lg font-bold ${className}`}>{value}</div>
+  </div>
+);
+
+const RoundRow: React.FC<{ settlement: RoundSettlement; expanded: boolean; onToggle: () => void }> = ({
+  settlement,
+  expanded,
+  onToggle
+}) => (
+  <>
+    <tr onClick={onToggle} className="border-t border-border-subtle hover:bg-gray-800 cursor-pointer">
+      <td className="py-2 px-2 text-gray-400">{new Date(settlement.settledAt).toLocaleString()}</td>
+      <td className="py-2 px-2 text-gray-400">#{settlement.nonce}</td>
+      <td className={`py-2 px-2 ${settlement.crashPoint >= 1 ? 'text-green-500' : 'text-red-500'}`}>
+        {settlement.crashPoint.toFixed(2)}x
+      </td>
+      <td className="py-2 px-2 text-white">{settlement.trades.length}</td>
+      <td className="py-2 px-2 text-white">{settlement.averageEntry.toFixed(2)}x</td>
+      <td className="py-2 px-2 text-white">{settlement.averageExit > 0 ? `${settlement.averageExit.toFixed(2)}x` : '-'}</td>
+      <td className="py-2 px-2 text-white">{formatAmount(settlement.totalBought, settlement.asset)}</td>
+      <td className={`py-2 px-2 ${settlement.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+        {formatSigned(settlement.realizedPnL, settlement.asset)}
+      </td>
+      <td className="py-2 px-2 uppercase text-xs text-gray-400">{settlement.mode}</td>
+      <td className="py-2 px-2">
+        <span className={`text-xs font-bold px-2 py-1 rounded ${OUTCOME_STYLES[settlement.outcome]}`}>
+          {settlement.outcome.toUpperCase()}
+        </span>
+      </td>
+    </tr>
+    {expanded && (
+      <tr className="bg-[#0e0c0d]">
+        <td colSpan={10} className="px-6 py-2">
+          <table className="w-full text-xs">
+            <tbody>
+              {settlement.trades.map(trade => (
+                <tr key={`${trade.id}-${trade.timestamp}`} className="text-gray-300">
+                  <td className="py-1 w-32">{new Date(trade.timestamp).toLocaleTimeString()}</td>
+                  <td className={`py-1 w-24 font-bold ${trade.type === 'buy' ? 'text-green-400' : 'text-red-400'}`}>
+                    {trade.type.toUpperCase()}
+                  </td>
+                  <td className="py-1 w-32 text-gray-500">{trade.reason ?? ''}</td>
+                  <td className="py-1 w-24">{trade.multiplier.toFixed(2)}x</td>
+                  <td className="py-1">{formatAmount(trade.amount, settlement.asset)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </td>
+      </tr>
+    )}
+  </>
+);
+
+const TradeHistory: React.FC = () => {
+  const { settlements } = useRoundLedger();
+  const { selectedAsset } = useBetting();
+  const [form, setForm] = useState<FilterForm>(() => emptyFilters(selectedAsset));
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const filtered = useMemo(() => filterSettlements(settlements, toLedgerFilters(form)), [settlements, form]);
+  const totals = useMemo(() => summarizeSettlements(filtered), [filtered]);
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visible = filtered.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const updateFilter = <K extends keyof FilterForm>(field: K) => (value: FilterForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    setPage(0);
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') {
+      downloadFile(`trade-history-${stamp}.csv`, settlementsToCsv(filtered), 'text/csv');
+    } else {
+      downloadFile(`trade-history-${stamp}.json`, settlementsToJson(filtered), 'application/json');
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-screen bg-[#0e0c0d]">
+      <Header />
+
+      <main className="flex-1 p-4 space-y-4">
+        {/* Filters */}
+        <div className="border border-border-light rounded-lg p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-white text-xl font-bold">Trade History</h2>
+            <div className="space-x-2">
+              <button
+                onClick={() => handleExport('csv')}
+                disabled={filtered.length === 0}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm transition-colors"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => handleExport('json')}
+                disabled={filtered.length === 0}
+                className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-3 py-1 rounded text-sm transition-colors"
+              >
+                Export JSON
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-6 gap-4">
+            <label className="block">
+              <span className="text-gray-400 text-sm">From</span>
+              <input type="date" value={form.from} onChange={(e) => updateFilter('from')(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-gray-400 text-sm">To</span>
+              <input type="date" value={form.to} onChange={(e) => updateFilter('to')(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-gray-400 text-sm">Asset</span>
+              <select
+                value={form.asset}
+                onChange={(e) => updateFilter('asset')(e.target.value as AssetId)}
+                className={inputClass}
+              >
+                {ASSET_IDS.map(id => (
+                  <option key={id} value={id}>{id}{ASSETS[id].isPaper ? ' (paper)' : ''}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-400 text-sm">Outcome</span>
+              <select
+                value={form.outcome}
+                onChange={(e) => updateFilter('outcome')(e.target.value as FilterForm['outcome'])}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                <option value="won">Won</option>
+                <option value="lost">Lost</option>
+                <option value="crashed">Crashed</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-400 text-sm">Crash point min</span>
+              <input
+                type="text"
+                value={form.minCrashPoint}
+                placeholder="0.00"
+                onChange={(e) => updateFilter('minCrashPoint')(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="text-gray-400 text-sm">Crash point max</span>
+              <input
+                type="text"
+                value={form.maxCrashPoint}
+                placeholder="∞"
+                onChange={(e) => updateFilter('maxCrashPoint')(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <button
+            onClick={() => { setForm(emptyFilters(form.asset)); setPage(0); }}
+            className="mt-3 text-gray-400 hover:text-white text-sm"
+          >
+            Clear filters
+          </button>
+        </div>
+
+        {/* Totals for the filtered rounds */}
+        <div className="grid grid-cols-6 gap-4">
+          <Stat label="Rounds" value={String(totals.rounds)} />
+          <Stat label="Won / Lost / Crashed" value={`${totals.outcomes.won} / ${totals.outcomes.lost} / ${totals.outcomes.crashed}`} />
+          <Stat label={`Total bought (${form.asset})`} value={formatAmount(totals.totalBought, form.asset)} />
+          <Stat label={`Total paid out (${form.asset})`} value={formatAmount(totals.totalPaidOut, form.asset)} />
+          <Stat label={`Fees (${form.asset})`} value={formatAmount(totals.fees, form.asset)} />
+          <Stat
+            label={`Realized PnL (${form.asset})`}
+            value={formatSigned(totals.realizedPnL, form.asset)}
+            className={totals.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}
+          />
+        </div>
+
+        {/* Settled rounds */}
+        <div className="border border-border-light rounded-lg p-4">
+          {filtered.length === 0 ? (
+            <div className="text-gray-400 text-sm">
+              {settlements.length === 0 ? 'Rounds you trade in appear here once they crash.' : 'No rounds match these filters.'}
+            </div>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="py-2 px-2 font-normal">Settled</th>
+                  <th className="py-2 px-2 font-normal">Round</th>
+                  <th className="py-2 px-2 font-normal">Crash</th>
+                  <th className="py-2 px-2 font-normal">Trades</th>
+                  <th className="py-2 px-2 font-normal">Avg entry</th>
+                  <th className="py-2 px-2 font-normal">Avg exit</th>
+                  <th className="py-2 px-2 font-normal">Bought</th>
+                  <th className="py-2 px-2 font-normal">PnL</th>
+                  <th className="py-2 px-2 font-normal">Mode</th>
+                  <th className="py-2 px-2 font-normal">Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map(settlement => (
+                  <RoundRow
+                    key={settlement.id}
+                    settlement={settlement}
+                    expanded={expandedId === settlement.id}
+                    onToggle={() => setExpandedId(expandedId === settlement.id ? null : settlement.id)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-end space-x-3 mt-4 text-sm">
+              <button
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+                className="text-gray-300 hover:text-white disabled:opacity-40"
+              >
+                ← Prev
+              </button>
+              <span className="text-gray-400">Page {currentPage + 1} of {pageCount}</span>
+              <button
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+                className="text-gray-300 hover:text-white disabled:opacity-40"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TradeHistory;
@@ -1,7 +1,47 @@
 import type React from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useRealtime } from '../../context/RealtimeContext';
+import { useTransactions } from '../../context/TransactionContext';
+import { useWallet } from '../../context/WalletContext';
+import type { ConnectionStatus } from '../../lib/realtime-client';
+import { shortenAddress } from '../../lib/wallet-adapter';
+import DepositModal from '../Wallet/DepositModal';
+import WithdrawModal from '../Wallet/WithdrawModal';
+
+const CONNECTION_BADGES: Record<ConnectionStatus, { label: string; className: string }> = {
+  idle: { label: 'OFFLINE', className: 'bg-gray-800 text-gray-400' },
+  connecting: { label: 'CONNECTING', className: 'bg-yellow-900 text-yellow-400' },
+  open: { label: 'LIVE', className: 'bg-green-900 text-green-400' },
+  reconnecting: { label: 'RECONNECTING', className: 'bg-yellow-900 text-yellow-400' },
+  closed: { label: 'OFFLINE', className: 'bg-red-900 text-red-400' },
+};
 
 const Header: React.FC = () => {
+  const { status, account, connect, disconnect, error } = useWallet();
+  const { pendingCount } = useTransactions();
+  const { client: realtime, status: realtimeStatus, error: realtimeError } = useRealtime();
+  const [openModal, setOpenModal] = useState<'deposit' | 'withdraw' | null>(null);
+
+  const handleWalletClick = async () => {
+    if (account) {
+      await disconnect();
+      toast('Wallet disconnected');
+    } else if (await connect()) {
+      toast.success('Wallet connected');
+    }
+  };
+
+  // Connection failures come back through the context
+  useEffect(() => {
+    if (error) toast.error(error);
+  }, [error]);
+
+  useEffect(() => {
+    if (realtimeError) toast.error(realtimeError);
+  }, [realtimeError]);
+
   return (
     <header className="bg-background border-b border-border-light py-2 px-4 flex items-center justify-between">
       <div className="flex items-center space-x-4">
@@ -15,11 +55,14 @@ const Header: React.FC = () => {
           <Link to="/crates" className="text-gray-300 hover:text-white uppercase font-medium">
             CRATES
           </Link>
-          <div className="relative">
+          <Link to="/history" className="text-gray-300 hover:text-white uppercase font-medium">
+            HISTORY
+          </Link>
+          <Link to="/fairness" className="relative" title="Provably fair verifier">
             <div className="w-9 h-9 bg-[#6c1d1c] border border-border-light rounded-full flex items-center justify-center">
               <img src="/icons/fairness.svg" alt="Fairness" className="w-5 h-5" />
             </div>
-          </div>
+          </Link>
         </div>
       </div>
 
@@ -33,18 +76,41 @@ const Header: React.FC = () => {
           Rugpass
         </button>
 
-        <button className="withdraw-button">
+        {realtime && (
+          <span
+            className={`text-xs font-bold px-2 py-1 rounded ${CONNECTION_BADGES[realtimeStatus].className}`}
+            title={`Rounds from ${realtime.url}`}
+          >
+            {CONNECTION_BADGES[realtimeStatus].label}
+          </span>
+        )}
+
+        {pendingCount > 0 && (
+          <span className="text-xs text-yellow-400 bg-yellow-900 px-2 py-1 rounded" title="Deposits and withdrawals awaiting confirmation">
+            {pendingCount} PENDING
+          </span>
+        )}
+
+        <button className="withdraw-button" onClick={() => setOpenModal('withdraw')}>
           WITHDRAW
         </button>
 
-        <button className="deposit-button">
+        <button className="deposit-button" onClick={() => setOpenModal('deposit')}>
           DEPOSIT
         </button>
 
-        <button className="connect-button">
-          Connect
+        <button
+          className="connect-button"
+          onClick={handleWalletClick}
+          disabled={status === 'connecting'}
+          title={account ? `${account.label} · click to disconnect` : undefined}
+        >
+          {status === 'connecting' ? 'Connecting…' : account ? shortenAddress(account.address) : 'Connect'}
         </button>
       </div>
+
+      <DepositModal open={openModal === 'deposit'} onOpenChange={(open) => setOpenModal(open ? 'deposit' : null)} />
+      <WithdrawModal open={openModal === 'withdraw'} onOpenChange={(open) => setOpenModal(open ? 'withdraw' : null)} />
     </header>
   );
 };
@@ -6,6 +6,7 @@ import MiniCharts from '../Chart/MiniCharts';
 import Multipliers from '../Chart/Multipliers';
 import TradingControls from '../Trading/TradingControls';
 import Leaderboard, { RecentWinners } from '../Leaderboard/Leaderboard';
+import LivePlayers from '../Leaderboard/LivePlayers';
 import { useScrollVisibility } from '../../hooks/useScrollVisibility';
 
 const MainLayout: React.FC = () => {
@@ -38,6 +39,7 @@ const MainLayout: React.FC = () => {
             </div>
 
             <div className="col-span-1 border border-border-light rounded-lg p-4">
+              <LivePlayers />
               <RecentWinners />
               <div className="mt-4">
                 <Leaderboard />
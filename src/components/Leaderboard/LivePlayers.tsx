@@ -0,0 +1,132 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { useBetting } from '../../context/BettingContext';
+import type { TradeAction } from '../../context/BettingContext.types';
+import { useGameEngine } from '../../context/GameEngineContext';
+import { useRealtime } from '../../context/RealtimeContext';
+import { type AssetId, formatAssetAmount } from '../../lib/assets';
+import {
+  buildRoundPlayers,
+  getRoundPlayerPnL,
+  type RoundPlayerEvent,
+  type RoundPlayerStatus
+} from '../../lib/round-players';
+
+const LOCAL_PLAYER_ID = 'local';
+
+const ROW_STYLES: Record<RoundPlayerStatus, string> = {
+  in: 'text-white',
+  'cashed-out': 'text-green-400',
+  busted: 'text-red-400',
+};
+
+// Offline the only player is you: replay your own trades of this round
+const toLocalEvents = (trades: readonly TradeAction[], fallbackAsset: AssetId): RoundPlayerEvent[] =>
+  trades
+    .filter(trade => trade.reason !== 'crash')
+    .map(trade => ({
+      playerId: LOCAL_PLAYER_ID,
+      name: 'You',
+      asset: trade.asset ?? fallbackAsset,
+      type: trade.type === 'buy' ? 'bet' : 'cashOut',
+      amount: trade.amount,
+      multiplier: trade.multiplier,
+    }));
+
+// Everyone with a position in the current round, repriced on every tick
+const LivePlayers: React.FC = () => {
+  const engine = useGameEngine();
+  const { client: realtime, playerId: ownId } = useRealtime();
+  const { tradeActions, selectedAsset } = useBetting();
+
+  const [multiplier, setMultiplier] = useState(() => engine.getState().multiplier);
+  const [crashed, setCrashed] = useState(() => engine.getState().phase === 'crashed');
+  const [remoteEvents, setRemoteEvents] = useState<RoundPlayerEvent[]>([]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('roundStart', ({ multiplier: initial }) => {
+        setMultiplier(initial);
+        setCrashed(false);
+        setRemoteEvents([]);
+      }),
+      engine.on('tick', ({ multiplier: current }) => setMultiplier(current)),
+      engine.on('crash', ({ crashPoint }) => {
+        setMultiplier(crashPoint);
+        setCrashed(true);
+      }),
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [engine]);
+
+  // Online, bets and cash outs of the whole room arrive from the server
+  useEffect(() => {
+    if (!realtime) return;
+    const isCurrentRound = (roundNumber: number) => roundNumber === realtime.getState().roundNumber;
+    const unsubscribers = [
+      realtime.on('betPlaced', ({ roundNumber, playerId, name, asset, amount, multiplier: entry }) => {
+        if (!isCurrentRound(roundNumber)) return;
+        setRemoteEvents(prev => [...prev, { playerId, name, asset, type: 'bet', amount, multiplier: entry }]);
+      }),
+      realtime.on('cashedOut', ({ roundNumber, playerId, name, asset, amount, multiplier: exit, payout }) => {
+        if (!isCurrentRound(roundNumber)) return;
+        setRemoteEvents(prev => [...prev, { playerId, name, asset, type: 'cashOut', amount, multiplier: exit, payout }]);
+      }),
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [realtime]);
+
+  const events = realtime ? remoteEvents : toLocalEvents(tradeActions, selectedAsset);
+  const players = buildRoundPlayers(events, crashed).sort((a, b) => b.staked - a.staked);
+  const stillIn = players.filter(player => player.status === 'in').length;
+
+  return (
+    <div className="bg-[#0e0c0d] border border-border-light rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-white text-lg font-bold">Players</h2>
+        <span className="text-gray-400 text-xs">
+          {players.length === 0 ? 'No bets yet' : `${stillIn}/${players.length} still in`}
+        </span>
+      </div>
+
+      {players.length > 0 && (
+        <>
+          <div className="grid grid-cols-4 text-gray-400 text-xs mb-1 px-2">
+            <div>Player</div>
+            <div className="text-right">Bet</div>
+            <div className="text-right">Entry</div>
+            <div className="text-right">PnL</div>
+          </div>
+          <div className="space-y-1 max-h-60 overflow-y-auto scrollbar-minimal">
+            {players.map(player => {
+              const pnl = getRoundPlayerPnL(player, multiplier);
+              const pnlColor = player.status !== 'in' ? '' : pnl >= 0 ? 'text-green-400' : 'text-red-400';
+              return (
+                <div
+                  key={player.playerId}
+                  className={`grid grid-cols-4 text-xs py-1 px-2 rounded border border-border-subtle ${ROW_STYLES[player.status]}`}
+                >
+                  <div className="truncate" title={player.name}>
+                    {player.name}{player.playerId === ownId && ' (you)'}
+                  </div>
+                  <div className="text-right">{formatAssetAmount(player.staked, player.asset)}</div>
+                  <div className="text-right">
+                    {player.entryMultiplier.toFixed(2)}x
+                    {player.status === 'cashed-out' && player.exitMultiplier !== null && ` → ${player.exitMultiplier.toFixed(2)}x`}
+                  </div>
+                  <div className={`text-right ${pnlColor}`}>{formatAssetAmount(pnl, player.asset, { signed: true })}</div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LivePlayers;
@@ -0,0 +1,60 @@
+import type React from 'react';
+import * as Select from '@radix-ui/react-select';
+import { Check, ChevronDown } from 'lucide-react';
+import { ASSET_IDS, ASSETS, type AssetId, formatAssetAmount } from '../../lib/assets';
+
+type AssetSelectProps = {
+  value: AssetId;
+  balances: Record<AssetId, number>;
+  onChange: (asset: AssetId) => void;
+  disabled?: boolean;
+};
+
+// Token dropdown for the bet input, listing every wallet balance
+const AssetSelect: React.FC<AssetSelectProps> = ({ value, balances, onChange, disabled }) => {
+  return (
+    <Select.Root value={value} onValueChange={(next) => onChange(next as AssetId)} disabled={disabled}>
+      <Select.Trigger
+        aria-label="Bet asset"
+        className="flex items-center text-white outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Select.Value />
+        <Select.Icon className="ml-1">
+          <ChevronDown size={16} />
+        </Select.Icon>
+      </Select.Trigger>
+
+      <Select.Portal>
+        <Select.Content
+          position="popper"
+          sideOffset={6}
+          align="end"
+          className="z-50 min-w-[220px] bg-[#1a1a1a] border border-border-light rounded shadow-lg"
+        >
+          <Select.Viewport className="p-1">
+            {ASSET_IDS.map(id => (
+              <Select.Item
+                key={id}
+                value={id}
+                className="flex items-center justify-between px-2 py-1.5 rounded text-sm text-white outline-none cursor-pointer data-[highlighted]:bg-[#2a2a2a]"
+              >
+                <div className="flex items-center">
+                  <Select.ItemIndicator className="w-4 mr-1">
+                    <Check size={14} />
+                  </Select.ItemIndicator>
+                  <Select.ItemText>{id}</Select.ItemText>
+                  {ASSETS[id].isPaper && (
+                    <span className="ml-2 text-[10px] text-green-400 bg-green-900 px-1 rounded">PAPER</span>
+                  )}
+                </div>
+                <span className="ml-4 text-xs text-gray-400">{formatAssetAmount(balances[id], id)}</span>
+              </Select.Item>
+            ))}
+          </Select.Viewport>
+        </Select.Content>
+      </Select.Portal>
+    </Select.Root>
+  );
+};
+
+export default AssetSelect;
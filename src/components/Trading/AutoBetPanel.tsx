@@ -0,0 +1,164 @@
+import type React from 'react';
+import { useState } from 'react';
+import { useBetting } from '../../context/BettingContext';
+import { formatAssetAmount } from '../../lib/assets';
+import {
+  AUTO_BET_STOP_LABELS,
+  AUTO_BET_STRATEGIES,
+  type AutoBetConfig,
+  type AutoBetStrategy
+} from '../../lib/auto-bet';
+
+type FieldProps = {
+  label: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+  disabled: boolean;
+};
+
+const Field: React.FC<FieldProps> = ({ label, value, placeholder, onChange, disabled }) => {
+  return (
+    <label className="block">
+      <div className="text-xs text-gray-400 mb-1">{label}</div>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        className="bg-[#0e0c0d] text-white w-full py-1 px-2 rounded outline-none border border-border-light text-sm disabled:opacity-60"
+      />
+    </label>
+  );
+};
+
+// Empty optional fields mean "no limit"
+const parseOptional = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Number(value);
+
+const AutoBetPanel: React.FC = () => {
+  const { autoBet, autoBetConfig, startAutoBet, stopAutoBet, selectedAsset } = useBetting();
+
+  const [strategy, setStrategy] = useState<AutoBetStrategy>('fixed');
+  const [baseAmount, setBaseAmount] = useState('0.01');
+  const [stakeMultiplier, setStakeMultiplier] = useState('2');
+  const [maxRounds, setMaxRounds] = useState('');
+  const [profitTarget, setProfitTarget] = useState('');
+  const [lossLimit, setLossLimit] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const running = autoBet?.active ?? false;
+  const token = selectedAsset;   // Pinned while the runner is active
+
+  const handleStart = () => {
+    const config: AutoBetConfig = {
+      strategy,
+      baseAmount: Number(baseAmount),
+      multiplier: Number(stakeMultiplier),
+      maxRounds: parseOptional(maxRounds),
+      profitTarget: parseOptional(profitTarget),
+      lossLimit: parseOptional(lossLimit)
+    };
+    setErrors(startAutoBet(config));
+  };
+
+  return (
+    <div className="mt-4 bg-[#1a1a1a] border border-border-light rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white text-lg font-bold">Auto Bet</h3>
+        {running && (
+          <span className="text-xs text-green-400 bg-green-900 px-2 py-1 rounded">RUNNING</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <div className="text-xs text-gray-400 mb-1">Strategy</div>
+          <select
+            value={strategy}
+            onChange={(e) => setStrategy(e.target.value as AutoBetStrategy)}
+            disabled={running}
+            className="bg-[#0e0c0d] text-white w-full py-1 px-2 rounded outline-none border border-border-light text-sm disabled:opacity-60"
+          >
+            {Object.entries(AUTO_BET_STRATEGIES).map(([key, { label }]) => (
+              <option key={key} value={key}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <Field label={`Base bet (${token})`} value={baseAmount} onChange={setBaseAmount} disabled={running} />
+        <Field
+          label="Stake multiplier"
+          value={stakeMultiplier}
+          onChange={setStakeMultiplier}
+          disabled={running || strategy === 'fixed'}
+        />
+        <Field label="Max rounds" value={maxRounds} placeholder="∞" onChange={setMaxRounds} disabled={running} />
+        <Field label="Profit target" value={profitTarget} placeholder="none" onChange={setProfitTarget} disabled={running} />
+        <Field label="Loss limit" value={lossLimit} placeholder="none" onChange={setLossLimit} disabled={running} />
+      </div>
+
+      <p className="text-xs text-gray-500 mt-2">
+        {AUTO_BET_STRATEGIES[strategy].description}. Bets use the Auto Orders above and start next round.
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-400 mt-2">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <button
+        onClick={running ? stopAutoBet : handleStart}
+        className={`${running ? 'sell-button' : 'buy-button'} w-full mt-3`}
+      >
+        {running ? 'STOP AUTO BET' : 'START AUTO BET'}
+      </button>
+
+      {/* Live summary */}
+      {autoBet && autoBetConfig && (
+        <div className="grid grid-cols-3 gap-2 mt-3 text-sm">
+          <div>
+            <div className="text-gray-400 text-xs">Rounds</div>
+            <div className="text-white">
+              {autoBet.roundsPlayed}{autoBetConfig.maxRounds !== undefined ? ` / ${autoBetConfig.maxRounds}` : ''}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-400 text-xs">W / L</div>
+            <div className="text-white">
+              <span className="text-green-400">{autoBet.wins}</span> / <span className="text-red-400">{autoBet.losses}</span>
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-400 text-xs">Net profit</div>
+            <div className={autoBet.netProfit >= 0 ? 'text-green-400' : 'text-red-400'}>
+              {formatAssetAmount(autoBet.netProfit, token, { signed: true })}
+            </div>
+          </div>
+          <div>
+            <div className="text-gray-400 text-xs">Total staked</div>
+            <div className="text-white">{formatAssetAmount(autoBet.totalStaked, token)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400 text-xs">Next stake</div>
+            <div className="text-white">{formatAssetAmount(autoBet.nextAmount, token)}</div>
+          </div>
+          <div>
+            <div className="text-gray-400 text-xs">Streak</div>
+            <div className={autoBet.streak >= 0 ? 'text-green-400' : 'text-red-400'}>
+              {autoBet.streak === 0 ? '-' : `${Math.abs(autoBet.streak)}${autoBet.streak > 0 ? 'W' : 'L'}`}
+            </div>
+          </div>
+          {autoBet.stopReason && (
+            <div className="col-span-3 text-xs text-yellow-400">
+              {AUTO_BET_STOP_LABELS[autoBet.stopReason]}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutoBetPanel;
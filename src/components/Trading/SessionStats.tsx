@@ -0,0 +1,128 @@
+import type React from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useBetting } from '../../context/BettingContext';
+import { useRoundLedger } from '../../hooks/useRoundLedger';
+import { ASSET_IDS, type AssetId, formatAssetAmount } from '../../lib/assets';
+import { filterSettlements } from '../../lib/round-ledger';
+import { computeSessionStats } from '../../lib/session-stats';
+
+type StatsScope = 'session' | 'all';
+
+const ASSET_OPTIONS: [AssetId, string][] = ASSET_IDS.map(id => [id, id]);
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const Toggle = <T extends string>({ options, value, onChange }: {
+  options: [T, string][];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex bg-[#0e0c0d] border border-border-light rounded text-xs">
+    {options.map(([key, label]) => (
+      <button
+        key={key}
+        onClick={() => onChange(key)}
+        className={`px-2 py-1 rounded ${value === key ? 'bg-[#2a2a2a] text-white' : 'text-gray-400 hover:text-white'}`}
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
+
+const Figure: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = 'text-white' }) => (
+  <div>
+    <div className="text-gray-400 text-xs">{label}</div>
+    <div className={className}>{value}</div>
+  </div>
+);
+
+const SessionStats: React.FC = () => {
+  const { selectedAsset, sessionStartedAt } = useBetting();
+  const { settlements } = useRoundLedger();
+
+  const [asset, setAsset] = useState<AssetId>(selectedAsset);
+  const [scope, setScope] = useState<StatsScope>('session');
+
+  // Follow the bet asset; the tabs still allow peeking at the others
+  useEffect(() => {
+    setAsset(selectedAsset);
+  }, [selectedAsset]);
+
+  // Figures are only summed within one asset
+  const stats = useMemo(() => {
+    const matching = filterSettlements(settlements, {
+      asset,
+      from: scope === 'session' ? sessionStartedAt : undefined
+    });
+    return computeSessionStats([...matching].reverse());   // Ledger hook is newest first
+  }, [settlements, asset, scope, sessionStartedAt]);
+
+  const format = (value: number, signed?: boolean) => formatAssetAmount(value, asset, { signed });
+
+  return (
+    <div className="mt-4 bg-[#1a1a1a] border border-border-light rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white text-lg font-bold">Statistics</h3>
+        <div className="flex space-x-2">
+          <Toggle options={ASSET_OPTIONS} value={asset} onChange={setAsset} />
+          <Toggle options={[['session', 'Session'], ['all', 'All time']]} value={scope} onChange={setScope} />
+        </div>
+      </div>
+
+      {stats.roundsPlayed === 0 ? (
+        <div className="text-gray-400 text-sm">No settled {asset} rounds yet.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-4 gap-3 text-sm">
+            <Figure label="Rounds" value={String(stats.roundsPlayed)} />
+            <Figure label="Win rate" value={`${formatPercent(stats.winRate)} (${stats.wins}/${stats.losses})`} />
+            <Figure label="Avg entry" value={`${stats.averageEntry.toFixed(2)}x`} />
+            <Figure label="Avg exit" value={stats.averageExit > 0 ? `${stats.averageExit.toFixed(2)}x` : '-'} />
+            <Figure label="Biggest win" value={format(stats.biggestWin, true)} className="text-green-400" />
+            <Figure label="Biggest loss" value={format(stats.biggestLoss, true)} className="text-red-400" />
+            <Figure label="Longest streaks" value={`${stats.longestWinStreak}W / ${stats.longestLossStreak}L`} />
+            <Figure
+              label="ROI"
+              value={formatPercent(stats.roi)}
+              className={stats.roi >= 0 ? 'text-green-400' : 'text-red-400'}
+            />
+            <Figure
+              label="Realized PnL"
+              value={format(stats.realizedPnL, true)}
+              className={stats.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}
+            />
+            <Figure label="Total staked" value={format(stats.totalStaked)} />
+            <Figure label="Max drawdown" value={format(stats.maxDrawdown)} className="text-red-400" />
+          </div>
+
+          {/* Equity curve - cumulative realized PnL per round */}
+          <div className="h-40 bg-[#15161D] rounded-lg p-2 mt-3">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={stats.equityCurve}>
+                <XAxis dataKey="round" stroke="rgba(255,255,255,0.6)" fontSize={10} />
+                <YAxis stroke="rgba(255,255,255,0.6)" fontSize={10} domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(2)} />
+                <Tooltip
+                  contentStyle={{ background: '#0e0c0d', border: '1px solid #333' }}
+                  formatter={(v: number) => [format(v, true), 'Equity']}
+                  labelFormatter={(round) => `Round ${round}`}
+                />
+                <ReferenceLine y={0} stroke="rgba(255,255,255,0.3)" strokeDasharray="4 4" />
+                <Line
+                  type="linear"
+                  dataKey="equity"
+                  stroke={stats.realizedPnL >= 0 ? '#00C853' : '#FF1744'}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SessionStats;
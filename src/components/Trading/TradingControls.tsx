@@ -1,6 +1,13 @@
 import type React from 'react';
-import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
 import { useBetting } from '../../context/BettingContext';
+import type { CashOutResult, PlaceBetResult, UnconfirmedReason } from '../../context/BettingContext.types';
+import { ASSETS, type AssetId, formatAssetAmount } from '../../lib/assets';
+import { describeBetRejection } from '../../lib/bet-limits';
+import { describeFeeModel } from '../../lib/fees';
+import AssetSelect from './AssetSelect';
+import AutoBetPanel from './AutoBetPanel';
+import SessionStats from './SessionStats';
 
 type MultiplierButtonProps = {
   value: string;
@@ -18,36 +25,132 @@ const MultiplierButton: React.FC<MultiplierButtonProps> = ({ value, onClick }) =
   );
 };
 
+type AutoOrderInputProps = {
+  label: string;
+  unit: string;
+  value: string;
+  placeholder?: string;
+  onChange: (value: string) => void;
+  disabled: boolean;
+};
+
+const AutoOrderInput: React.FC<AutoOrderInputProps> = ({ label, unit, value, placeholder, onChange, disabled }) => {
+  return (
+    <div>
+      <div className="text-xs text-gray-400 mb-1">{label}</div>
+      <div className="flex items-center border border-border-light rounded">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          disabled={disabled}
+          className="bg-[#0e0c0d] text-white w-full py-1 px-2 rounded-l outline-none border-none text-sm"
+        />
+        <div className="bg-[#1a1a1a] flex items-center rounded-r px-2 py-1 border-l border-border-light">
+          <span className="text-white text-xs whitespace-nowrap">{unit}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const formatFee = (fee: number, asset: AssetId) => fee > 0 ? ` (fee ${formatAssetAmount(fee, asset)})` : '';
+
+const UNCONFIRMED_MESSAGES: Record<UnconfirmedReason, (order: string) => string> = {
+  'not-connected': () => 'Not connected to the game server',
+  timeout: (order) => `The server did not confirm your ${order} in time`,
+  disconnected: (order) => `Connection lost before the server confirmed your ${order}`,
+  'invalid-request': (order) => `The server rejected the ${order}`,
+};
+
+const notifyPlaceBet = (result: PlaceBetResult, asset: AssetId) => {
+  switch (result.status) {
+    case 'ok':
+      toast.success(
+        `${result.addedToPosition ? 'Added' : 'Bought'} ${formatAssetAmount(result.amount, asset)} at ${result.multiplier.toFixed(2)}x${formatFee(result.fee, asset)}`
+      );
+      return;
+    case 'game-not-active':
+      toast.error('Wait for the next round to start');
+      return;
+    case 'round-crashed':
+      toast.error('The round has crashed');
+      return;
+    case 'already-active':
+      toast.error('Auto bet is running - stop it to trade manually');
+      return;
+    case 'wallet-not-connected':
+      toast.error('Connect a wallet to bet real funds, or switch to FREE');
+      return;
+    case 'pending':
+      toast.error('Your last bet is still waiting for the server');
+      return;
+    case 'unconfirmed':
+      toast.error(UNCONFIRMED_MESSAGES[result.reason]('bet'));
+      return;
+    default:
+      toast.error(describeBetRejection(result));
+  }
+};
+
+const notifyCashOut = (result: CashOutResult, asset: AssetId) => {
+  switch (result.status) {
+    case 'ok':
+      toast.success(
+        `${result.closed ? 'Closed position' : `Sold ${formatAssetAmount(result.amount, asset)}`} at ${result.multiplier.toFixed(2)}x for ${formatAssetAmount(result.payout, asset)}${formatFee(result.fee, asset)}`
+      );
+      return;
+    case 'game-not-active':
+      toast.error('No round in progress');
+      return;
+    case 'round-crashed':
+      toast.error('Too late - the round has crashed');
+      return;
+    case 'no-position':
+      toast.error('You have no open position to sell');
+      return;
+    case 'invalid-amount':
+      toast.error('Enter a sell percentage between 0 and 100');
+      return;
+    case 'pending':
+      toast.error('Your last sell is still waiting for the server');
+      return;
+    case 'unconfirmed':
+      toast.error(UNCONFIRMED_MESSAGES[result.reason]('sell'));
+      return;
+  }
+};
+
 const TradingControls: React.FC = () => {
   // Use our betting context instead of local state
   const {
     betAmount, setBetAmount,
     sellPercentage, setSellPercentage,
+    autoCashout, setAutoCashout,
+    autoSellPercentage, setAutoSellPercentage,
+    stopLoss, setStopLoss,
     balance,
-    isPaperMode, setIsPaperMode,
-    paperBalance,
+    balances,
+    selectedAsset, selectAsset,
+    canChangeAsset,
+    isPaperMode,
+    requiresWallet,
     resetPaperBalance,
     playerBet,
     isGameActive,
     placeBet,
+    isBetPending,
+    betLimits,
+    feeModel,
     cashOut,
+    isCashOutPending,
     getCumulativePnL
   } = useBetting();
   
-  const [selectedToken, setSelectedToken] = useState('SOL');
-  
-  // Update paper mode when token selection changes
-  useEffect(() => {
-    const newPaperMode = selectedToken === 'FREE';
-    if (newPaperMode !== isPaperMode) {
-      setIsPaperMode(newPaperMode);
-      console.log('🔄 Paper mode', newPaperMode ? 'enabled' : 'disabled');
-    }
-  }, [selectedToken, isPaperMode, setIsPaperMode]);
-  
-  // Use appropriate balance based on mode
-  const currentBalance = isPaperMode ? paperBalance : balance;
-  const tokenAmount = currentBalance.toFixed(3);
+  const asset = ASSETS[selectedAsset];
+  const tokenAmount = balance.toFixed(asset.displayDecimals);
+  const feeSummary = describeFeeModel(feeModel, isPaperMode);
 
   // Debug logging to track button states
   console.log('TradingControls state:', {
@@ -55,15 +158,23 @@ const TradingControls: React.FC = () => {
     playerBetActive: playerBet.isActive,
     betAmount,
     sellPercentage,
-    currentBalance,
-    isPaperMode,
-    selectedToken
+    balance,
+    selectedAsset
   });
 
   const handleBuyAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setBetAmount(e.target.value);
   };
 
+  const handleBuy = async () => {
+    notifyPlaceBet(await placeBet(), selectedAsset);
+  };
+
+  const handleSell = async () => {
+    const asset = playerBet.asset ?? selectedAsset;
+    notifyCashOut(await cashOut(), asset);
+  };
+
   const handleSellAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSellPercentage(e.target.value);
   };
@@ -101,26 +212,28 @@ const TradingControls: React.FC = () => {
               className="bg-[#0e0c0d] text-white w-full py-2 px-3 rounded-l outline-none border-none"
             />
             <div className="bg-[#1a1a1a] flex items-center rounded-r px-3 border-l border-border-light">
-              <button
-                className="text-white"
-                onClick={() => setSelectedToken(selectedToken === 'SOL' ? 'FREE' : 'SOL')}
-              >
-                <div className="flex items-center">
-                  <span className="mr-1">{selectedToken}</span>
-                  <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                    <polyline points="6 9 12 15 18 9"></polyline>
-                  </svg>
-                </div>
-              </button>
+              <AssetSelect
+                value={selectedAsset}
+                balances={balances}
+                onChange={selectAsset}
+                disabled={!canChangeAsset}
+              />
             </div>
           </div>
           <button 
-            onClick={placeBet} 
-            disabled={!isGameActive || playerBet.isActive}
+            onClick={handleBuy} 
+            disabled={!isGameActive || isBetPending}
             className="buy-button w-full mt-4 text-xl"
           >
-            BUY
+            {isBetPending ? 'BUYING…' : playerBet.isActive ? 'BUY MORE' : 'BUY'}
           </button>
+          {requiresWallet && (
+            <div className="text-yellow-400 text-xs mt-1">Connect a wallet to bet {selectedAsset}</div>
+          )}
+          <div className="text-gray-500 text-xs mt-1">
+            Min {betLimits.minBet} · Max {betLimits.maxBet} · Max payout {betLimits.maxPayoutPerRound}
+            {feeSummary && <> · Fees: {feeSummary}</>}
+          </div>
         </div>
 
         <div>
@@ -139,22 +252,70 @@ const TradingControls: React.FC = () => {
             </div>
           </div>
           <button 
-            onClick={cashOut} 
-            disabled={!isGameActive || !playerBet.isActive}
+            onClick={handleSell} 
+            disabled={!isGameActive || !playerBet.isActive || isCashOutPending}
             className="sell-button w-full mt-4 text-xl"
           >
-            SELL
+            {isCashOutPending ? 'SELLING…' : 'SELL'}
           </button>
         </div>
         
+        {/* Auto orders - attached to the next bet placed */}
+        <div className="col-span-2">
+          <div className="flex items-center mb-2">
+            <h3 className="text-white text-sm font-bold">Auto Orders</h3>
+            <span className="ml-2 text-xs text-gray-400">leave empty to sell manually</span>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <AutoOrderInput
+              label="Cash-out at"
+              unit="x"
+              value={autoCashout}
+              placeholder="2.00"
+              onChange={setAutoCashout}
+              disabled={playerBet.isActive}
+            />
+            <AutoOrderInput
+              label="Auto-sell"
+              unit="%"
+              value={autoSellPercentage}
+              onChange={setAutoSellPercentage}
+              disabled={playerBet.isActive}
+            />
+            <AutoOrderInput
+              label="Stop-loss"
+              unit="% below"
+              value={stopLoss}
+              placeholder="20"
+              onChange={setStopLoss}
+              disabled={playerBet.isActive}
+            />
+          </div>
+        </div>
+        
         {/* Show active bet and P&L if a bet is active */}
         {playerBet.isActive && (
           <div className="col-span-2 mt-2 text-center text-white bg-black bg-opacity-50 py-1 px-2 rounded">
-            <span>Active Bet: {playerBet.amount.toFixed(2)} @ {playerBet.entryMultiplier.toFixed(2)}x</span>
+            <span>Position: {formatAssetAmount(playerBet.amount, playerBet.asset ?? selectedAsset)} @ {playerBet.entryMultiplier.toFixed(2)}x avg</span>
+            {(playerBet.buyCount ?? 1) > 1 && (
+              <span className="ml-2 text-gray-400">({playerBet.buyCount} buys)</span>
+            )}
+            {playerBet.autoCashout && (
+              <span className="ml-2 text-green-400">
+                · Auto {playerBet.autoSellPercentage}% @ {playerBet.autoCashout.toFixed(2)}x
+              </span>
+            )}
+            {playerBet.stopLoss !== undefined && (
+              <span className="ml-2 text-red-400">
+                · SL @ {(playerBet.entryMultiplier * playerBet.stopLoss).toFixed(2)}x
+              </span>
+            )}
           </div>
         )}
       </div>
 
+      <AutoBetPanel />
+
       {/* Account Balance Display - Replaces Leaderboard */}
       <div className="mt-8 text-center">
         <div className="bg-[#1a1a1a] border border-border-light rounded-lg p-4">
@@ -170,14 +331,14 @@ const TradingControls: React.FC = () => {
           </div>
           
           <div className="text-white text-2xl font-bold mb-2">
-            {currentBalance.toFixed(3)} {selectedToken}
+            {formatAssetAmount(balance, selectedAsset)}
           </div>
           
           {/* Show cumulative PnL */}
           <div className="text-sm mb-3">
             <span className="text-gray-400">Session PnL: </span>
             <span className={getCumulativePnL() >= 0 ? 'text-green-400' : 'text-red-400'}>
-              {getCumulativePnL() >= 0 ? '+' : ''}{getCumulativePnL().toFixed(3)} {selectedToken}
+              {formatAssetAmount(getCumulativePnL(), selectedAsset, { signed: true })}
             </span>
           </div>
           
@@ -187,11 +348,13 @@ const TradingControls: React.FC = () => {
               onClick={resetPaperBalance}
               className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm transition-colors"
             >
-              Reset to 1000 SOL
+              Reset to {formatAssetAmount(asset.startingBalance, selectedAsset)}
             </button>
           )}
         </div>
       </div>
+
+      <SessionStats />
     </div>
   );
 };
@@ -0,0 +1,157 @@
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { toast } from 'sonner';
+import { useTransactions } from '../../context/TransactionContext';
+import { useWallet } from '../../context/WalletContext';
+import { type AssetId, formatAssetAmount, TRANSFERABLE_ASSET_IDS } from '../../lib/assets';
+import { WalletError } from '../../lib/wallet-adapter';
+import TransactionProgress from './TransactionProgress';
+import WalletModal from './WalletModal';
+
+const inputClass = 'mt-1 bg-[#0e0c0d] text-white w-full py-2 px-3 rounded outline-none border border-border-light text-sm';
+
+const DepositModal: React.FC<{ open: boolean; onOpenChange: (open: boolean) => void }> = ({ open, onOpenChange }) => {
+  const { backend, deposit, findTransaction } = useTransactions();
+  const { adapter, account, connect, status: walletStatus } = useWallet();
+
+  const [asset, setAsset] = useState<AssetId>(TRANSFERABLE_ASSET_IDS[0]);
+  const [amount, setAmount] = useState('');
+  const [walletBalance, setWalletBalance] = useState<number | null>(null);
+  const [sending, setSending] = useState(false);
+  const [transactionId, setTransactionId] = useState<string | null>(null);
+
+  const address = backend.getDepositAddress(asset);
+  const transaction = transactionId ? findTransaction(transactionId) : undefined;
+
+  // On-chain funds available to send, refreshed when the wallet changes
+  useEffect(() => {
+    if (!open || !account) {
+      setWalletBalance(null);
+      return;
+    }
+    let cancelled = false;
+    const refresh = () => {
+      adapter.getBalance(asset)
+        .then(balance => { if (!cancelled) setWalletBalance(balance); })
+        .catch(() => { if (!cancelled) setWalletBalance(null); });
+    };
+    refresh();
+    const unsubscribe = adapter.on('balanceChange', refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [open, account, adapter, asset]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setTransactionId(null);
+      setAmount('');
+    }
+    onOpenChange(next);
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(address)
+      .then(() => toast.success('Deposit address copied'))
+      .catch(() => toast.error('Could not copy the address'));
+  };
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const sent = await deposit(asset, Number.parseFloat(amount));
+      setTransactionId(sent.id);
+    } catch (error) {
+      toast.error(error instanceof WalletError ? error.message : 'Deposit could not be sent');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const parsedAmount = Number.parseFloat(amount);
+  const canSend = !sending && parsedAmount > 0 && (walletBalance === null || parsedAmount <= walletBalance);
+  const paymentUri = `solana:${address}${parsedAmount > 0 ? `?amount=${parsedAmount}` : ''}`;
+
+  return (
+    <WalletModal
+      open={open}
+      onOpenChange={handleOpenChange}
+      title="Deposit"
+      description="Send funds to your game balance"
+    >
+      {transaction ? (
+        <div className="space-y-4">
+          <TransactionProgress transaction={transaction} />
+          <button
+            onClick={() => setTransactionId(null)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm transition-colors"
+          >
+            New deposit
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-gray-400 text-sm">Asset</span>
+              <select value={asset} onChange={(e) => setAsset(e.target.value as AssetId)} className={inputClass}>
+                {TRANSFERABLE_ASSET_IDS.map(id => <option key={id} value={id}>{id}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-400 text-sm">Amount</span>
+              <input
+                type="text"
+                value={amount}
+                placeholder="0.00"
+                onChange={(e) => setAmount(e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {/* House address for this asset */}
+          <div className="flex items-center space-x-4">
+            <div className="bg-white p-2 rounded">
+              <QRCodeSVG value={paymentUri} size={112} />
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-gray-400 text-xs mb-1">Deposit address ({asset})</div>
+              <div className="text-white text-xs font-mono break-all">{address}</div>
+              <button onClick={handleCopy} className="mt-2 text-gray-300 hover:text-white text-xs underline">
+                Copy address
+              </button>
+            </div>
+          </div>
+
+          {account ? (
+            <>
+              <div className="text-gray-400 text-xs">
+                Wallet balance: {walletBalance === null ? '…' : formatAssetAmount(walletBalance, asset)}
+              </div>
+              <button
+                onClick={handleSend}
+                disabled={!canSend}
+                className="deposit-button w-full disabled:opacity-50"
+              >
+                {sending ? 'Waiting for wallet…' : 'Send from wallet'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => connect()}
+              disabled={walletStatus === 'connecting'}
+              className="connect-button w-full"
+            >
+              {walletStatus === 'connecting' ? 'Connecting…' : 'Connect wallet to send'}
+            </button>
+          )}
+        </div>
+      )}
+    </WalletModal>
+  );
+};
+
+export default DepositModal;
@@ -0,0 +1,55 @@
+import type React from 'react';
+import { formatAssetAmount } from '../../lib/assets';
+import type { TransactionStatus, WalletTransaction } from '../../lib/transaction-backend';
+import { shortenAddress } from '../../lib/wallet-adapter';
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: 'bg-yellow-900 text-yellow-400',
+  confirmed: 'bg-green-900 text-green-400',
+  failed: 'bg-red-900 text-red-400',
+};
+
+// Lifecycle of one deposit or withdrawal: pending with confirmations, then confirmed or failed
+const TransactionProgress: React.FC<{ transaction: WalletTransaction }> = ({ transaction }) => {
+  const { status, confirmations, requiredConfirmations } = transaction;
+  const progress = status === 'confirmed' ? 1 : confirmations / requiredConfirmations;
+
+  return (
+    <div className="bg-[#0e0c0d] border border-border-light rounded p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-white">
+          {transaction.type === 'deposit' ? 'Deposit' : 'Withdrawal'} of {formatAssetAmount(transaction.amount, transaction.asset)}
+        </span>
+        <span className={`text-xs font-bold px-2 py-1 rounded ${STATUS_STYLES[status]}`}>{status.toUpperCase()}</span>
+      </div>
+
+      {status !== 'failed' && (
+        <>
+          <div className="h-1.5 bg-[#2a2a2a] rounded overflow-hidden">
+            <div
+              className={`h-full transition-all ${status === 'confirmed' ? 'bg-green-500' : 'bg-yellow-500'}`}
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+          <div className="text-gray-400 text-xs mt-1">
+            {confirmations}/{requiredConfirmations} confirmations
+            {transaction.type === 'deposit' && status === 'pending' && ' · credited once confirmed'}
+          </div>
+        </>
+      )}
+
+      {status === 'failed' && (
+        <div className="text-red-400 text-xs">
+          {transaction.failureReason ?? 'Transaction failed'}
+          {transaction.type === 'withdraw' ? ' · funds returned to your balance' : ' · funds returned to your wallet'}
+        </div>
+      )}
+
+      <div className="text-gray-500 text-xs mt-1">
+        {transaction.type === 'deposit' ? 'From' : 'To'} {shortenAddress(transaction.address, 6)}
+      </div>
+    </div>
+  );
+};
+
+export default TransactionProgress;
@@ -0,0 +1,37 @@
+import type React from 'react';
+import type { ReactNode } from 'react';
+import * as Dialog from '@radix-ui/react-dialog';
+import { X } from 'lucide-react';
+
+type WalletModalProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  children: ReactNode;
+};
+
+// Dialog shell shared by the deposit and withdraw flows
+const WalletModal: React.FC<WalletModalProps> = ({ open, onOpenChange, title, description, children }) => {
+  return (
+    <Dialog.Root open={open} onOpenChange={onOpenChange}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 z-40 bg-black bg-opacity-70" />
+        <Dialog.Content className="fixed z-50 left-1/2 top-1/2 w-full max-w-md -translate-x-1/2 -translate-y-1/2 bg-[#1a1a1a] border border-border-light rounded-lg p-6 outline-none">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <Dialog.Title className="text-white text-xl font-bold">{title}</Dialog.Title>
+              <Dialog.Description className="text-gray-400 text-sm">{description}</Dialog.Description>
+            </div>
+            <Dialog.Close className="text-gray-400 hover:text-white" aria-label="Close">
+              <X size={20} />
+            </Dialog.Close>
+          </div>
+          {children}
+        </Dialog.Content>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+};
+
+export default WalletModal;
@@ -0,0 +1,147 @@
+import type React from 'react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { useBetting } from '../../context/BettingContext';
+import { useTransactions } from '../../context/TransactionContext';
+import { useWallet } from '../../context/WalletContext';
+import { type AssetId, formatAssetAmount, TRANSFERABLE_ASSET_IDS } from '../../lib/assets';
+import { checkWithdrawal, describeWithdrawalRejection } from '../../lib/transaction-backend';
+import TransactionProgress from './TransactionProgress';
+import WalletModal from './WalletModal';
+
+const inputClass = 'mt-1 bg-[#0e0c0d] text-white w-full py-2 px-3 rounded outline-none border border-border-light text-sm';
+
+const WithdrawModal: React.FC<{ open: boolean; onOpenChange: (open: boolean) => void }> = ({ open, onOpenChange }) => {
+  const { balances } = useBetting();
+  const { backend, withdraw, findTransaction } = useTransactions();
+  const { account } = useWallet();
+
+  const [asset, setAsset] = useState<AssetId>(TRANSFERABLE_ASSET_IDS[0]);
+  const [amount, setAmount] = useState('');
+  const [address, setAddress] = useState('');
+  const [transactionId, setTransactionId] = useState<string | null>(null);
+
+  const policy = backend.getWithdrawalPolicy(asset);
+  const balance = balances[asset];
+  const parsedAmount = Number.parseFloat(amount);
+  const recipient = address || account?.address || '';
+  const transaction = transactionId ? findTransaction(transactionId) : undefined;
+
+  // Only complain once both fields have something in them
+  const rejection = amount && recipient ? checkWithdrawal(parsedAmount, recipient, balance, policy) : null;
+  const maxAmount = Math.max(0, Math.min(policy.maxAmount, balance - policy.fee));
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setTransactionId(null);
+      setAmount('');
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = () => {
+    const result = withdraw(asset, parsedAmount, recipient);
+    if (result.status === 'submitted') {
+      setTransactionId(result.transaction.id);
+    } else {
+      toast.error(describeWithdrawalRejection(result, asset));
+    }
+  };
+
+  return (
+    <WalletModal
+      open={open}
+      onOpenChange={handleOpenChange}
+      title="Withdraw"
+      description="Send funds from your game balance to a Solana address"
+    >
+      {transaction ? (
+        <div className="space-y-4">
+          <TransactionProgress transaction={transaction} />
+          <button
+            onClick={() => setTransactionId(null)}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm transition-colors"
+          >
+            New withdrawal
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-gray-400 text-sm">Asset</span>
+              <select value={asset} onChange={(e) => setAsset(e.target.value as AssetId)} className={inputClass}>
+                {TRANSFERABLE_ASSET_IDS.map(id => <option key={id} value={id}>{id}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-gray-400 text-sm">Amount</span>
+              <div className="flex">
+                <input
+                  type="text"
+                  value={amount}
+                  placeholder="0.00"
+                  onChange={(e) => setAmount(e.target.value)}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setAmount(String(maxAmount))}
+                  className="ml-2 mt-1 text-gray-300 hover:text-white text-xs"
+                >
+                  MAX
+                </button>
+              </div>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-gray-400 text-sm">Recipient address</span>
+            <input
+              type="text"
+              value={address}
+              placeholder={account?.address ?? 'Solana address'}
+              onChange={(e) => setAddress(e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+            {!address && account && (
+              <span className="text-gray-500 text-xs">Defaults to your connected wallet</span>
+            )}
+          </label>
+
+          {/* Fee preview */}
+          <div className="bg-[#0e0c0d] border border-border-light rounded p-3 text-sm space-y-1">
+            <div className="flex justify-between text-gray-400">
+              <span>Available</span>
+              <span>{formatAssetAmount(balance, asset)}</span>
+            </div>
+            <div className="flex justify-between text-gray-400">
+              <span>Network fee</span>
+              <span>{formatAssetAmount(policy.fee, asset)}</span>
+            </div>
+            <div className="flex justify-between text-white">
+              <span>Deducted from balance</span>
+              <span>{parsedAmount > 0 ? formatAssetAmount(parsedAmount + policy.fee, asset) : '-'}</span>
+            </div>
+            <div className="text-gray-500 text-xs pt-1">
+              Limits: {policy.minAmount} - {policy.maxAmount} {asset} per withdrawal
+            </div>
+          </div>
+
+          {rejection && (
+            <div className="text-red-400 text-xs">{describeWithdrawalRejection(rejection, asset)}</div>
+          )}
+
+          <button
+            onClick={handleSubmit}
+            disabled={!amount || !recipient || rejection !== null}
+            className="withdraw-button w-full disabled:opacity-50"
+          >
+            Withdraw
+          </button>
+        </div>
+      )}
+    </WalletModal>
+  );
+};
+
+export default WithdrawModal;
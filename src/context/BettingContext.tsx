@@ -1,19 +1,51 @@
 import type React from 'react';
-import { createContext, useState, type ReactNode, useContext } from 'react'
+import { createContext, useState, useEffect, useRef, type ReactNode, useContext } from 'react'
+import { useGameEngine } from './GameEngineContext';
+import { useRealtime } from './RealtimeContext';
+import { useWallet } from './WalletContext';
+import {
+  type AutoBetConfig,
+  type AutoBetState,
+  createAutoBetState,
+  recordAutoBetRound,
+  stopAutoBetState,
+  validateAutoBetConfig
+} from '../lib/auto-bet';
+import {
+  ASSETS,
+  type AssetId,
+  createDefaultLimits,
+  createStartingBalances,
+  DEFAULT_ASSET,
+  roundToAssetUnits
+} from '../lib/assets';
+import { type BetLimits, checkBet, getCapMultiplier } from '../lib/bet-limits';
+import { BettingStorage } from '../lib/betting-storage';
+import { DEFAULT_FEE_MODEL, type FeeModel, getBuyFee, getSellFee } from '../lib/fees';
+import type { BetResolution, CashOutResolution, RealtimeGameClient } from '../lib/realtime-client';
+import { settleRound, weightedEntry } from '../lib/round-ledger';
+import type {
+  CashOutResult,
+  PlaceBetResult,
+  PlayerBet,
+  RoundSettlement,
+  RoundTradeLog,
+  SellReason,
+  TradeAction
+} from './BettingContext.types';
 
-interface PlayerBet {
-  amount: number;
-  entryMultiplier: number;
-  isActive: boolean;
-}
+const SELL_ID_PREFIX: Record<SellReason, string> = {
+  manual: 'sell',
+  'auto-cashout': 'auto-sell',
+  'stop-loss': 'stop-loss-sell',
+  limit: 'limit-sell',
+  crash: 'crash-sell',
+};
 
-interface TradeAction {
-  id: string;
-  type: 'buy' | 'sell';
-  multiplier: number;
-  amount: number;
-  timestamp: number;
-}
+// Positions smaller than this after a sale count as closed
+const POSITION_DUST = 1e-9;
+
+type PositionOrders = Pick<PlayerBet, 'autoCashout' | 'autoSellPercentage' | 'stopLoss'>;
 
 interface BettingContextType {
   // Bet state
@@ -23,20 +55,34 @@ interface BettingContextType {
   setBetAmount: React.Dispatch<React.SetStateAction<string>>;
   sellPercentage: string;
   setSellPercentage: React.Dispatch<React.SetStateAction<string>>;
-  balance: number;
-  setBalance: React.Dispatch<React.SetStateAction<number>>;
+  autoCashout: string;           // Empty string disables auto cash-out
+  setAutoCashout: React.Dispatch<React.SetStateAction<string>>;
+  autoSellPercentage: string;
+  setAutoSellPercentage: React.Dispatch<React.SetStateAction<string>>;
+  stopLoss: string;              // Percent below entry; empty string disables the stop-loss
+  setStopLoss: React.Dispatch<React.SetStateAction<string>>;
+  
+  // Wallet - one balance per asset; bets use the selected asset
+  balances: Record<AssetId, number>;
+  setBalances: React.Dispatch<React.SetStateAction<Record<AssetId, number>>>;
+  adjustBalance: (asset: AssetId, delta: number) => void;   // Credit (+) or debit (-) one asset
+  selectedAsset: AssetId;
+  selectAsset: (asset: AssetId) => boolean;   // False while a round's trades or an auto-bet pin the asset
+  canChangeAsset: boolean;
+  balance: number;               // Balance of the selected asset
   
   // Paper trading state
-  isPaperMode: boolean;
-  setIsPaperMode: React.Dispatch<React.SetStateAction<boolean>>;
-  paperBalance: number;
-  setPaperBalance: React.Dispatch<React.SetStateAction<number>>;
+  isPaperMode: boolean;          // The selected asset is play money
+  requiresWallet: boolean;       // Betting the selected asset needs a wallet that is not connected
   resetPaperBalance: () => void;
   
   // Trade tracking
   tradeActions: TradeAction[];
   addTradeAction: (action: TradeAction) => void;
   clearTradeActions: () => void;
+  tradeLedger: RoundSettlement[];  // Settled rounds the player traded in, oldest first, persisted across reloads
+  isHydrated: boolean;           // Stored balances and ledger have been loaded
+  sessionStartedAt: number;      // Page load; earlier ledger rounds come from storage
   
   // Game state to access multiplier
   multiplier: number;
@@ -49,9 +95,25 @@ interface BettingContextType {
     crashPoint: number;
   }) => void;
   
+  // Auto-bet runner
+  autoBet: AutoBetState | null;
+  autoBetConfig: AutoBetConfig | null;
+  startAutoBet: (config: AutoBetConfig) => string[];   // Returns validation errors; empty = started
+  stopAutoBet: () => void;
+  
+  // Stake rules and payout caps, per asset
+  betLimits: BetLimits;          // Limits of the selected asset
+  setBetLimits: (asset: AssetId, limits: BetLimits) => void;
+  
+  // Fees charged on buys and sells
+  feeModel: FeeModel;
+  setFeeModel: React.Dispatch<React.SetStateAction<FeeModel>>;
+  
   // Betting functions
-  placeBet: () => void;
-  cashOut: () => void;
+  placeBet: () => Promise<PlaceBetResult>;   // Waits for the server's fill when playing online
+  isBetPending: boolean;
+  cashOut: () => Promise<CashOutResult>;     // Likewise
+  isCashOutPending: boolean;
   getCurrentPnL: () => number;
   getCumulativePnL: () => number; // Add cumulative PnL function
 }
@@ -68,14 +130,55 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
   
   const [betAmount, setBetAmount] = useState<string>('0.01');
   const [sellPercentage, setSellPercentage] = useState<string>('100');
-  const [balance, setBalance] = useState<number>(10000); // Original: 1000
+  const [autoCashout, setAutoCashout] = useState<string>('');
+  const [autoSellPercentage, setAutoSellPercentage] = useState<string>('100');
+  const [stopLoss, setStopLoss] = useState<string>('');
   
-  // Paper trading state
-  const [isPaperMode, setIsPaperMode] = useState<boolean>(false);
-  const [paperBalance, setPaperBalance] = useState<number>(1000); // 1000 SOL for paper trading
+  // Wallet state. Paper mode is simply a play-money asset being selected.
+  const [balances, setBalances] = useState<Record<AssetId, number>>(createStartingBalances);
+  const [selectedAsset, setSelectedAsset] = useState<AssetId>(DEFAULT_ASSET);
+  const balance = balances[selectedAsset];
+  const isPaperMode = ASSETS[selectedAsset].isPaper;
+  
+  // Real-money bets need a connected wallet; paper bets and sells never do
+  const { isConnected: isWalletConnected } = useWallet();
+  const requiresWallet = !isPaperMode && !isWalletConnected;
+  
+  // When playing on a server, every buy and sale is filled by the server at
+  // its own tick; one of each can be waiting for its ack at a time
+  const { client: realtime } = useRealtime();
+  const [isBetPending, setIsBetPending] = useState(false);
+  const betPendingRef = useRef(false);
+  const [isCashOutPending, setIsCashOutPending] = useState(false);
+  const cashOutPendingRef = useRef(false);
+  
+  const adjustBalance = (asset: AssetId, delta: number) => {
+    setBalances(prev => ({ ...prev, [asset]: prev[asset] + delta }));
+  };
   
   // Trade tracking state
   const [tradeActions, setTradeActions] = useState<TradeAction[]>([]);
+  const [tradeLedger, setTradeLedger] = useState<RoundSettlement[]>([]);
+  
+  // Persistence - balances and ledger are restored once, then saved on change
+  const [storage] = useState(() => new BettingStorage());
+  const [isHydrated, setIsHydrated] = useState<boolean>(false);
+  const [sessionStartedAt] = useState(() => Date.now());
+  
+  // Liability caps. The ref sums every payout of the current round.
+  const [limitsByAsset, setLimitsByAsset] = useState<Record<AssetId, BetLimits>>(createDefaultLimits);
+  const betLimits = limitsByAsset[selectedAsset];
+  const setBetLimits = (asset: AssetId, limits: BetLimits) => {
+    setLimitsByAsset(prev => ({ ...prev, [asset]: limits }));
+  };
+  const roundPaidOutRef = useRef(0);
+  
+  const [feeModel, setFeeModel] = useState<FeeModel>(DEFAULT_FEE_MODEL);
+  
+  // The round being played and the trades made in it. Refs, because the
+  // crash handler reads them in the same call that records the last sell.
+  const currentRoundRef = useRef<Pick<RoundTradeLog, 'roundNumber' | 'nonce' | 'serverSeedHash' | 'startedAt'> | null>(null);
+  const roundTradesRef = useRef<TradeAction[]>([]);
   
   // Game state
   const [multiplier, setMultiplier] = useState<number>(1.0);
@@ -83,6 +186,12 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
   const [hasCrashed, setHasCrashed] = useState<boolean>(false);
   const [crashPoint, setCrashPoint] = useState<number>(0);
   
+  // Auto-bet state. The round ref tracks the current auto bet's stake and
+  // everything paid out on it until the crash settles the round.
+  const [autoBet, setAutoBet] = useState<AutoBetState | null>(null);
+  const [autoBetConfig, setAutoBetConfig] = useState<AutoBetConfig | null>(null);
+  const autoRoundRef = useRef<{ stake: number; payout: number } | null>(null);
+  
   const setGameState = (state: { isGameActive: boolean, currentMultiplier: number, crashPoint: number }) => {
     const wasGameActive = isGameActive;
     const wasHasCrashed = hasCrashed;
@@ -105,6 +214,60 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
     if (state.isGameActive && (!wasGameActive || wasHasCrashed)) {
       console.log('🎮 New game started - clearing trade history for fresh PnL tracking');
       setTradeActions([]);
+      roundTradesRef.current = [];
+      roundPaidOutRef.current = 0;
+      
+      // **AUTO-BET** - place this round's bet at the strategy's stake
+      if (autoBet?.active && autoBetConfig && !playerBet.isActive) {
+        const amount = autoBet.nextAmount;
+        const round = autoBet.roundsPlayed + 1;
+        void openPosition(amount, state.currentMultiplier).then(result => {
+          if (result.status === 'ok') {
+            console.log('🤖 Auto-bet placed:', { strategy: autoBetConfig.strategy, amount, round });
+            autoRoundRef.current = { stake: amount + result.fee, payout: 0 };
+          } else {
+            console.log('🛑 Auto-bet stopped:', result);
+            const reason = result.status === 'insufficient-balance' ? 'insufficient-balance' : 'rejected';
+            setAutoBet(prev => prev ? stopAutoBetState(prev, reason) : prev);
+          }
+        });
+      }
+    }
+    
+    // **PAYOUT CAPS** - close the position at the multiplier where it reaches
+    // the round payout cap or the profit cap, even if the tick overshot it
+    // Online only one sale can be in flight, so orders wait for its ack
+    const ordersArmed = state.isGameActive && playerBet.isActive && !cashOutPendingRef.current;
+    const capMultiplier = playerBet.isActive
+      ? getCapMultiplier(playerBet.amount, playerBet.entryMultiplier, roundPaidOutRef.current, betLimits)
+      : Number.POSITIVE_INFINITY;
+    
+    if (ordersArmed && state.currentMultiplier >= capMultiplier) {
+      console.log('🧢 Payout cap reached:', { capMultiplier, multiplier: state.currentMultiplier, limits: betLimits });
+      triggerSale(100, capMultiplier, 'limit');
+    } else if (
+      // **AUTO CASH-OUT**
+      // Sell on the first tick where the multiplier reaches the bet's target.
+      // The target is cleared once the sale fills so a partial auto-sell fires
+      // only once, and stays armed if the server rejects it.
+      ordersArmed && playerBet.autoCashout && state.currentMultiplier >= playerBet.autoCashout
+    ) {
+      console.log('🤖 Auto cash-out triggered:', {
+        target: playerBet.autoCashout,
+        multiplier: state.currentMultiplier,
+        percentage: playerBet.autoSellPercentage ?? 100
+      });
+      triggerSale(playerBet.autoSellPercentage ?? 100, state.currentMultiplier, 'auto-cashout');
+    } else if (
+      // **STOP-LOSS** - close the whole position once the price falls to the level
+      ordersArmed && playerBet.stopLoss !== undefined &&
+      state.currentMultiplier <= playerBet.entryMultiplier * playerBet.stopLoss
+    ) {
+      console.log('🛑 Stop-loss triggered:', {
+        level: playerBet.entryMultiplier * playerBet.stopLoss,
+        multiplier: state.currentMultiplier
+      });
+      triggerSale(100, state.currentMultiplier, 'stop-loss');
     }
     
     // **CRASH-CLOSES-TRADE FUNCTIONALITY**
@@ -128,11 +291,12 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
       
       // Add a sell trade action to record the crash-forced trade closure
       addTradeAction({
-        id: `crash-sell-${Date.now()}`,
+        id: `${SELL_ID_PREFIX.crash}-${Date.now()}`,
         type: 'sell',
         multiplier: state.crashPoint, // Sell at crash point (which could be below entry)
         amount: playerBet.amount,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        reason: 'crash'
       });
       
       // Close the active bet - player loses their bet amount (already deducted when they placed the bet)
@@ -145,25 +309,123 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
       
       console.log('✅ Trade closed due to crash. Player lost bet amount:', playerBet.amount);
     }
+    
+    // Settle the auto-bet round once it crashes
+    const autoRound = autoRoundRef.current;
+    if (!state.isGameActive && state.crashPoint > 0 && autoRound && autoBetConfig) {
+      autoRoundRef.current = null;
+      setAutoBet(prev => prev ? recordAutoBetRound(prev, autoBetConfig, autoRound.stake, autoRound.payout) : prev);
+      console.log('📈 Auto-bet round settled:', { ...autoRound, profit: autoRound.payout - autoRound.stake });
+    }
+    
+    // Settle the finished round into the ledger (rounds without trades are skipped)
+    const round = currentRoundRef.current;
+    if (!state.isGameActive && state.crashPoint > 0 && round && roundTradesRef.current.length > 0) {
+      const settlement = settleRound({ ...round, crashPoint: state.crashPoint, endedAt: Date.now(), trades: roundTradesRef.current });
+      roundTradesRef.current = [];
+      currentRoundRef.current = null;
+      setTradeLedger(prev => [...prev, settlement]);
+      console.log('🧾 Round settled:', {
+        roundNumber: settlement.roundNumber,
+        realizedPnL: settlement.realizedPnL,
+        outcome: settlement.outcome
+      });
+    }
   };
   
+  // Drive game state from the engine. The ref always points at the latest
+  // setGameState so engine callbacks never see a stale bet or balance.
+  const engine = useGameEngine();
+  const setGameStateRef = useRef(setGameState);
+  setGameStateRef.current = setGameState;
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('roundStart', ({ roundNumber, commitment, multiplier, crashPoint }) => {
+        currentRoundRef.current = {
+          roundNumber,
+          nonce: commitment.nonce,
+          serverSeedHash: commitment.serverSeedHash,
+          startedAt: Date.now()
+        };
+        setGameStateRef.current({ isGameActive: true, currentMultiplier: multiplier, crashPoint });
+      }),
+      engine.on('tick', ({ multiplier }) => {
+        setGameStateRef.current({ isGameActive: true, currentMultiplier: multiplier, crashPoint: engine.getState().crashPoint });
+      }),
+      engine.on('crash', ({ crashPoint }) => {
+        setGameStateRef.current({ isGameActive: false, currentMultiplier: crashPoint, crashPoint });
+      }),
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [engine]);
+  
+  // Restore balances and ledger from storage
+  useEffect(() => {
+    let cancelled = false;
+    storage.load().then(stored => {
+      if (cancelled) return;
+      if (stored) {
+        setBalances(stored.balances);
+        setTradeLedger(stored.ledger);
+        console.log('🗄️ Betting data restored:', { balances: stored.balances, rounds: stored.ledger.length });
+      }
+      setIsHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage]);
+  
+  // Save after every change once restored, so defaults never overwrite stored data
+  useEffect(() => {
+    if (!isHydrated) return;
+    storage.save({ balances, ledger: tradeLedger });
+  }, [storage, isHydrated, balances, tradeLedger]);
+  
   // Trade tracking functions
   const addTradeAction = (action: TradeAction) => {
-    setTradeActions(prev => [...prev, action]);
+    const recorded = {
+      ...action,
+      isPaper: action.isPaper ?? isPaperMode,
+      asset: action.asset ?? selectedAsset,
+      roundId: action.roundId ?? currentRoundRef.current?.serverSeedHash
+    };
+    setTradeActions(prev => [...prev, recorded]);
+    roundTradesRef.current = [...roundTradesRef.current, recorded];
   };
   
   const clearTradeActions = () => {
     setTradeActions([]);
   };
   
-  // Paper trading function
+  // Paper trading function - refills the selected play-money asset
   const resetPaperBalance = () => {
-    setPaperBalance(1000);
-    console.log('🔄 Paper balance reset to 1000 SOL');
+    if (!isPaperMode) return;
+    const { startingBalance } = ASSETS[selectedAsset];
+    setBalances(prev => ({ ...prev, [selectedAsset]: startingBalance }));
+    console.log(`🔄 Paper balance reset to ${startingBalance} ${selectedAsset}`);
+  };
+  
+  // The asset is pinned while a position is open, while this round has
+  // trades (its settlement is in one asset) and while auto-bet runs
+  const canChangeAsset = !playerBet.isActive && !autoBet?.active && !(isGameActive && tradeActions.length > 0);
+  
+  const selectAsset = (asset: AssetId): boolean => {
+    if (asset === selectedAsset) return true;
+    if (!canChangeAsset) {
+      console.log('🚫 Asset change blocked until the round is over:', { from: selectedAsset, to: asset });
+      return false;
+    }
+    setSelectedAsset(asset);
+    console.log('🪙 Asset selected:', asset);
+    return true;
   };
   
   // Place bet function
-  const placeBet = () => {
+  const placeBet = async (): Promise<PlaceBetResult> => {
     console.log('🎯 placeBet called:', { 
       isGameActive, 
       playerBetActive: playerBet.isActive, 
@@ -172,50 +434,172 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
       isPaperMode
     });
     
-    if (!isGameActive || playerBet.isActive || hasCrashed) {
-      console.log('🚫 placeBet blocked:', {
-        reason: !isGameActive ? 'game not active' : 
-                playerBet.isActive ? 'bet already active' : 
-                'game crashed'
-      });
-      return;
+    if (hasCrashed) {
+      console.log('🚫 placeBet blocked: game crashed');
+      return { status: 'round-crashed' };
+    }
+    
+    if (!isGameActive) {
+      console.log('🚫 placeBet blocked: game not active');
+      return { status: 'game-not-active' };
     }
     
-    const amount = Number.parseFloat(betAmount);
-    const currentBalance = isPaperMode ? paperBalance : balance;
+    // Manual buys would throw off the runner's stake sizing
+    if (autoBet?.active) {
+      console.log('🚫 placeBet blocked: auto-bet is running');
+      return { status: 'already-active' };
+    }
     
-    if (isNaN(amount) || amount <= 0 || amount > currentBalance) {
-      console.log('🚫 placeBet blocked: invalid amount', { amount, currentBalance, isPaperMode });
-      return;
+    return openPosition(Number.parseFloat(betAmount), multiplier);
+  };
+
+  // Open a position of `amount` at `atMultiplier` with the current auto
+  // orders, or add to the open one. Shared by manual and auto bets. Online
+  // the server fills the bet at its own tick instead.
+  const openPosition = async (requestedAmount: number, atMultiplier: number): Promise<PlaceBetResult> => {
+    if (requiresWallet) {
+      console.log('🚫 placeBet blocked: wallet not connected', { asset: selectedAsset });
+      return { status: 'wallet-not-connected' };
     }
     
-    console.log('✅ placeBet executing:', { amount, multiplier, currentBalance, isPaperMode });
+    const amount = roundToAssetUnits(requestedAmount, selectedAsset);
+    const fee = getBuyFee(amount, feeModel, isPaperMode);
     
-    setPlayerBet({
-      amount,
-      entryMultiplier: multiplier,
-      isActive: true
-    });
+    const limitRejection = checkBet(amount, {
+      balance,
+      positionAmount: playerBet.isActive ? playerBet.amount : 0,
+      paidOutThisRound: roundPaidOutRef.current,
+      fee
+    }, betLimits);
+    if (limitRejection) {
+      console.log('🚫 placeBet blocked:', { ...limitRejection, amount, balance, isPaperMode });
+      return limitRejection;
+    }
+    
+    // Auto orders are set when the position opens; scaling in keeps them
+    let orders: PositionOrders = {};
+    if (!playerBet.isActive) {
+      // Optional auto cash-out: target must be above the entry, percentage 0-100
+      const target = autoCashout.trim() === '' ? undefined : Number.parseFloat(autoCashout);
+      const autoPercentage = Number.parseFloat(autoSellPercentage);
+      
+      if (target !== undefined && (Number.isNaN(target) || target <= atMultiplier)) {
+        console.log('🚫 placeBet blocked: auto cash-out must be above the current multiplier', { target, atMultiplier });
+        return { status: 'invalid-order', message: `Auto cash-out must be above ${atMultiplier.toFixed(2)}x` };
+      }
+      
+      if (target !== undefined && (Number.isNaN(autoPercentage) || autoPercentage <= 0 || autoPercentage > 100)) {
+        console.log('🚫 placeBet blocked: invalid auto-sell percentage', { autoPercentage });
+        return { status: 'invalid-order', message: 'Auto-sell must be between 0 and 100%' };
+      }
+      
+      // Optional stop-loss, entered as percent below entry
+      const stopLossPercent = stopLoss.trim() === '' ? undefined : Number.parseFloat(stopLoss);
+      if (stopLossPercent !== undefined && (Number.isNaN(stopLossPercent) || stopLossPercent <= 0 || stopLossPercent >= 100)) {
+        console.log('🚫 placeBet blocked: stop-loss must be between 0 and 100%', { stopLossPercent });
+        return { status: 'invalid-order', message: 'Stop-loss must be between 0 and 100% below entry' };
+      }
+      
+      orders = {
+        autoCashout: target,
+        autoSellPercentage: target !== undefined ? autoPercentage : undefined,
+        stopLoss: stopLossPercent !== undefined ? 1 - stopLossPercent / 100 : undefined
+      };
+    }
+    
+    if (!realtime) {
+      return applyBuy(amount, atMultiplier, fee, orders);
+    }
     
-    // Deduct from appropriate balance
-    if (isPaperMode) {
-      setPaperBalance(prev => prev - amount);
+    if (betPendingRef.current) {
+      console.log('🚫 placeBet blocked: previous bet still pending');
+      return { status: 'pending' };
+    }
+    
+    // Online the multiplier on screen is not trusted: the server fills the
+    // bet at its own tick and the ack is applied to the latest state
+    console.log('📨 placeBet requested from server:', { amount, seenMultiplier: atMultiplier });
+    betPendingRef.current = true;
+    setIsBetPending(true);
+    const resolution = await realtime.requestBet(selectedAsset, amount);
+    betPendingRef.current = false;
+    setIsBetPending(false);
+    return settleServerBetRef.current(resolution, fee, orders);
+  };
+  
+  const settleServerBet = (resolution: BetResolution, fee: number, orders: PositionOrders): PlaceBetResult => {
+    switch (resolution.status) {
+      case 'rejected':
+        console.log('🚫 placeBet rejected by server:', resolution.reason);
+        return resolution.reason === 'invalid-request'
+          ? { status: 'unconfirmed', reason: 'invalid-request' }
+          : { status: resolution.reason };
+      case 'unconfirmed':
+        console.log('⚠️ placeBet not confirmed:', resolution.reason);
+        return { status: 'unconfirmed', reason: resolution.reason };
+      case 'accepted': {
+        const { amount, multiplier: filledAt, tick, seenTick } = resolution.ack;
+        console.log('✅ placeBet filled by server:', { amount, filledAt, tick, seenTick });
+        return applyBuy(amount, filledAt, fee, orders);
+      }
+    }
+  };
+  const settleServerBetRef = useRef(settleServerBet);
+  settleServerBetRef.current = settleServerBet;
+  
+  // Open the position, or add to the open one, at `atMultiplier` and charge
+  // the buy. Scaling in keeps the position's auto orders; the stop-loss
+  // follows the new average entry.
+  const applyBuy = (amount: number, atMultiplier: number, fee: number, orders: PositionOrders): PlaceBetResult => {
+    const addedToPosition = playerBet.isActive;
+    if (addedToPosition) {
+      console.log('➕ Adding to position:', { amount, atMultiplier, position: playerBet, isPaperMode });
     } else {
-      setBalance(prev => prev - amount);
+      console.log('✅ placeBet executing:', { amount, fee, atMultiplier, balance, asset: selectedAsset, ...orders });
     }
     
+    setPlayerBet(prev => prev.isActive
+      ? {
+        ...prev,
+        amount: prev.amount + amount,
+        entryMultiplier: weightedEntry(prev.amount, prev.entryMultiplier, amount, atMultiplier),
+        buyCount: (prev.buyCount ?? 1) + 1
+      }
+      : {
+        amount,
+        entryMultiplier: atMultiplier,
+        isActive: true,
+        asset: selectedAsset,
+        buyCount: 1,
+        ...orders
+      });
+    recordBuy(amount, atMultiplier, fee);
+    
+    return { status: 'ok', amount, multiplier: atMultiplier, addedToPosition, fee };
+  };
+  
+  // Charge a buy and its fee to the selected asset and log it
+  const recordBuy = (amount: number, atMultiplier: number, fee: number) => {
+    adjustBalance(selectedAsset, -(amount + fee));
+    
     // Add buy trade action
     addTradeAction({
       id: `buy-${Date.now()}`,
       type: 'buy',
-      multiplier,
+      multiplier: atMultiplier,
       amount,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      fee
     });
+    
+    // Manual buys on top of an auto bet count toward its stake
+    if (autoRoundRef.current) {
+      autoRoundRef.current.stake += amount + fee;
+    }
   };
 
   // Cash out function - can sell partial position
-  const cashOut = () => {
+  const cashOut = async (): Promise<CashOutResult> => {
     console.log('💰 cashOut called:', { 
       playerBetActive: playerBet.isActive, 
       isGameActive, 
@@ -223,58 +607,159 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
       isPaperMode
     });
     
-    if (!playerBet.isActive || !isGameActive) {
-      console.log('🚫 cashOut blocked:', {
-        reason: !playerBet.isActive ? 'no active bet' : 'game not active'
-      });
-      return;
+    if (hasCrashed) {
+      console.log('🚫 cashOut blocked: game crashed');
+      return { status: 'round-crashed' };
+    }
+    
+    if (!isGameActive) {
+      console.log('🚫 cashOut blocked: game not active');
+      return { status: 'game-not-active' };
+    }
+    
+    if (!playerBet.isActive) {
+      console.log('🚫 cashOut blocked: no active bet');
+      return { status: 'no-position' };
     }
     
     const percentage = Number.parseFloat(sellPercentage);
     if (isNaN(percentage) || percentage <= 0 || percentage > 100) {
       console.log('🚫 cashOut blocked: invalid percentage', { percentage });
-      return;
+      return { status: 'invalid-amount' };
     }
     
-    console.log('✅ cashOut executing:', { percentage, multiplier, playerBet, isPaperMode });
-    
-    // Calculate portion of bet to cash out
-    const portionToSell = percentage / 100;
-    const amountToSell = playerBet.amount * portionToSell;
+    if (cashOutPendingRef.current) {
+      console.log('🚫 cashOut blocked: previous cash out still pending');
+      return { status: 'pending' };
+    }
     
-    const multiplierGain = multiplier / playerBet.entryMultiplier;
-    const payout = amountToSell * multiplierGain;
+    if (!realtime) {
+      console.log('✅ cashOut executing:', { percentage, multiplier, playerBet, isPaperMode });
+      return { status: 'ok', ...sellPosition(percentage, multiplier, 'manual') };
+    }
     
-    // Update player's balance (paper or real)
-    if (isPaperMode) {
-      setPaperBalance(prev => prev + payout);
-    } else {
-      setBalance(prev => prev + payout);
+    return requestServerSale(realtime, percentage, 'manual');
+  };
+  
+  // Sell for an auto order or a payout cap: settled here offline, filled by
+  // the server online - at its own tick, not at `atMultiplier`
+  const triggerSale = (percentage: number, atMultiplier: number, reason: SellReason) => {
+    if (!realtime) {
+      sellPosition(percentage, atMultiplier, reason);
+      return;
+    }
+    // A cap sale must not fill past the cap however far the server has moved on
+    void requestServerSale(realtime, percentage, reason, reason === 'limit' ? atMultiplier : undefined);
+  };
+  
+  // Online the multiplier on screen is not trusted: the server fills the
+  // sale at its own tick and the ack is settled against the latest state
+  const requestServerSale = async (
+    server: RealtimeGameClient,
+    percentage: number,
+    reason: SellReason,
+    maxMultiplier?: number
+  ): Promise<CashOutResult> => {
+    console.log('📨 cashOut requested from server:', { percentage, reason, seenMultiplier: multiplier });
+    cashOutPendingRef.current = true;
+    setIsCashOutPending(true);
+    const resolution = await server.requestCashOut(playerBet.asset ?? selectedAsset, percentage, maxMultiplier);
+    cashOutPendingRef.current = false;
+    setIsCashOutPending(false);
+    return settleServerCashOutRef.current(resolution, reason);
+  };
+  
+  const settleServerCashOut = (resolution: CashOutResolution, reason: SellReason): CashOutResult => {
+    switch (resolution.status) {
+      case 'rejected':
+        console.log('🚫 cashOut rejected by server:', resolution.reason);
+        return resolution.reason === 'invalid-request'
+          ? { status: 'unconfirmed', reason: 'invalid-request' }
+          : { status: resolution.reason };
+      case 'unconfirmed':
+        // A timed-out request may still have been filled; the position is left as is
+        console.log('⚠️ cashOut not confirmed:', resolution.reason);
+        return { status: 'unconfirmed', reason: resolution.reason };
+      case 'accepted': {
+        // Settle exactly what the server filled, even if the position has
+        // changed (or closed) locally since the request
+        const { amount, payout, multiplier: filledAt, tick, seenTick } = resolution.ack;
+        console.log('✅ cashOut filled by server:', { reason, amount, filledAt, tick, seenTick });
+        return { status: 'ok', ...applySale(amount, payout, filledAt, reason) };
+      }
     }
+  };
+  const settleServerCashOutRef = useRef(settleServerCashOut);
+  settleServerCashOutRef.current = settleServerCashOut;
+
+  // Sell part or all of the active position at `atMultiplier`
+  const sellPosition = (percentage: number, atMultiplier: number, reason: SellReason) => {
+    // Calculate portion of bet to cash out
+    const amountToSell = playerBet.amount * (percentage / 100);
+    const grossPayout = amountToSell * (atMultiplier / playerBet.entryMultiplier);
+    return applySale(amountToSell, grossPayout, atMultiplier, reason);
+  };
+  
+  // Pay out `amountToSell` of stake for `grossPayout` and shrink the position
+  // by it. The fee is taken from the payout; the returned payout is net.
+  const applySale = (amountToSell: number, grossPayout: number, atMultiplier: number, reason: SellReason) => {
+    const asset = playerBet.asset ?? selectedAsset;
+    const fee = getSellFee(amountToSell, grossPayout, feeModel, ASSETS[asset].isPaper);
+    const payout = grossPayout - fee;
+    
+    // Pay into the wallet the position was bought from
+    adjustBalance(asset, payout);
     
     // Add sell trade action
     addTradeAction({
-      id: `sell-${Date.now()}`,
+      id: `${SELL_ID_PREFIX[reason]}-${Date.now()}`,
       type: 'sell',
-      multiplier,
+      multiplier: atMultiplier,
       amount: amountToSell,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      reason,
+      fee,
+      asset
     });
     
-    if (percentage === 100) {
-      // Full cash out
-      setPlayerBet({
-        amount: 0,
-        entryMultiplier: 0,
-        isActive: false
-      });
-    } else {
-      // Partial cash out
-      setPlayerBet(prev => ({
-        ...prev,
-        amount: prev.amount - amountToSell
-      }));
+    roundPaidOutRef.current += payout;
+    if (autoRoundRef.current) {
+      autoRoundRef.current.payout += payout;
+    }
+    
+    // Float dust left by percentage sales counts as a full cash out
+    const closed = playerBet.amount - amountToSell <= POSITION_DUST;
+    setPlayerBet(prev => {
+      if (!prev.isActive) return prev;
+      const remaining = prev.amount - amountToSell;
+      const autoCashout = reason === 'auto-cashout' ? undefined : prev.autoCashout;
+      return remaining > POSITION_DUST
+        ? { ...prev, amount: remaining, autoCashout }
+        : { amount: 0, entryMultiplier: 0, isActive: false };
+    });
+    
+    return { amount: amountToSell, multiplier: atMultiplier, payout, fee, closed };
+  };
+
+  // Auto-bet runner - bets start from the next round
+  const startAutoBet = (config: AutoBetConfig): string[] => {
+    const errors = validateAutoBetConfig(config);
+    if (errors.length > 0) {
+      console.log('🚫 Auto-bet not started:', errors);
+      return errors;
     }
+    
+    console.log('🤖 Auto-bet started:', config);
+    autoRoundRef.current = null;
+    setAutoBetConfig(config);
+    setAutoBet(createAutoBetState(config));
+    return [];
+  };
+  
+  // Stop placing new bets. An open auto bet still settles at the crash.
+  const stopAutoBet = () => {
+    console.log('⏹️ Auto-bet stopped by player');
+    setAutoBet(prev => prev?.active ? stopAutoBetState(prev, 'manual') : prev);
   };
 
   // Calculate current profit/loss for active position
@@ -284,7 +769,8 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
     return playerBet.amount * multiplierGain - playerBet.amount;
   };
 
-  // Calculate cumulative profit/loss across all trades since last crash
+  // Calculate cumulative profit/loss across all trades since last crash,
+  // net of the fees paid and of the fee an exit now would cost
   const getCumulativePnL = (): number => {
     let totalPnL = 0;
     let currentPosition = 0; // Track current position amount
@@ -292,6 +778,10 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
     
     // Process all trade actions
     for (const action of tradeActions) {
+      // PnL is per asset; skip last round's trades after switching
+      if ((action.asset ?? selectedAsset) !== selectedAsset) continue;
+      totalPnL -= action.fee ?? 0;
+      
       if (action.type === 'buy') {
         // Add to position
         if (currentPosition === 0) {
@@ -300,9 +790,8 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
           currentPosition = action.amount;
         } else {
           // Additional buy - calculate weighted average entry
-          const totalValue = (currentPosition * currentEntryMultiplier) + (action.amount * action.multiplier);
+          currentEntryMultiplier = weightedEntry(currentPosition, currentEntryMultiplier, action.amount, action.multiplier);
           currentPosition += action.amount;
-          currentEntryMultiplier = totalValue / currentPosition;
         }
       } else if (action.type === 'sell') {
         // Calculate PnL for this sell
@@ -322,7 +811,9 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
     // Add unrealized PnL from current active position
     if (playerBet.isActive) {
       const multiplierGain = multiplier / playerBet.entryMultiplier;
-      const unrealizedPnL = playerBet.amount * multiplierGain - playerBet.amount;
+      const value = playerBet.amount * multiplierGain;
+      const exitFee = getSellFee(playerBet.amount, value, feeModel, ASSETS[playerBet.asset ?? selectedAsset].isPaper);
+      const unrealizedPnL = value - exitFee - playerBet.amount;
       totalPnL += unrealizedPnL;
       console.log('📊 PnL Debug - Active bet unrealized PnL:', {
         currentMultiplier: multiplier,
@@ -351,23 +842,45 @@ export const BettingProvider: React.FC<{children: ReactNode}> = ({ children }) =
       setBetAmount,
       sellPercentage,
       setSellPercentage,
+      autoCashout,
+      setAutoCashout,
+      autoSellPercentage,
+      setAutoSellPercentage,
+      stopLoss,
+      setStopLoss,
+      balances,
+      setBalances,
+      adjustBalance,
+      selectedAsset,
+      selectAsset,
+      canChangeAsset,
       balance,
-      setBalance,
       isPaperMode,
-      setIsPaperMode,
-      paperBalance,
-      setPaperBalance,
+      requiresWallet,
       resetPaperBalance,
       tradeActions,
       addTradeAction,
       clearTradeActions,
+      tradeLedger,
+      isHydrated,
+      sessionStartedAt,
       multiplier,
       isGameActive,
       hasCrashed,
       crashPoint,
       setGameState,
+      autoBet,
+      autoBetConfig,
+      startAutoBet,
+      stopAutoBet,
+      betLimits,
+      setBetLimits,
+      feeModel,
+      setFeeModel,
       placeBet,
+      isBetPending,
       cashOut,
+      isCashOutPending,
       getCurrentPnL,
       getCumulativePnL
     }}>
@@ -0,0 +1,97 @@
+/**
+ * BettingContext Type Definitions
+ * Shared by the betting context, its storage layer and history views
+ */
+
+import type { AssetId } from '../lib/assets';
+import type { BetRejection } from '../lib/bet-limits';
+
+// ===== POSITION =====
+export interface PlayerBet {
+  amount: number;                // Cost basis of the open position
+  entryMultiplier: number;       // Weighted average entry across every buy
+  isActive: boolean;
+  asset?: AssetId;               // Wallet the stake came from and sells pay into
+  buyCount?: number;             // Buys merged into the position
+  autoCashout?: number;          // Sell automatically on the first tick at or above this multiplier
+  autoSellPercentage?: number;   // Share of the position the auto cash-out sells (default 100)
+  stopLoss?: number;             // Sell everything once the multiplier falls to entryMultiplier * stopLoss
+}
+
+// ===== TRADES =====
+export type SellReason = 'manual' | 'auto-cashout' | 'stop-loss' | 'limit' | 'crash';
+
+export interface TradeAction {
+  id: string;
+  type: 'buy' | 'sell';
+  multiplier: number;
+  amount: number;
+  timestamp: number;
+  reason?: SellReason;           // Set on sells only
+  isPaper?: boolean;             // Paid from / into the paper balance
+  asset?: AssetId;               // Missing on trades made before multi-asset balances
+  fee?: number;                  // Charged on top of the trade, in the bet currency
+  roundId?: string;              // RoundSettlement id (server seed hash) of the round it was made in
+}
+
+// ===== RESULTS =====
+// What placeBet / cashOut did, discriminated by `status`
+
+// Online orders the server did not fill, or whose fill was never confirmed
+export type UnconfirmedReason = 'not-connected' | 'timeout' | 'disconnected' | 'invalid-request';
+
+export type PlaceBetResult =
+  | { status: 'ok'; amount: number; multiplier: number; addedToPosition: boolean; fee: number }
+  | { status: 'game-not-active' }
+  | { status: 'round-crashed' }
+  | { status: 'already-active' }              // An auto-bet run owns the position
+  | { status: 'wallet-not-connected' }        // Real-money assets need a connected wallet
+  | { status: 'pending' }                     // A bet is already waiting on the server
+  | { status: 'unconfirmed'; reason: UnconfirmedReason }
+  | BetRejection;
+
+export type CashOutResult =
+  | { status: 'ok'; amount: number; multiplier: number; payout: number; fee: number; closed: boolean }   // payout is net of the fee
+  | { status: 'game-not-active' }
+  | { status: 'round-crashed' }
+  | { status: 'no-position' }
+  | { status: 'invalid-amount' }              // Sell percentage outside 0-100
+  | { status: 'pending' }                     // A cash out is already waiting on the server
+  | { status: 'unconfirmed'; reason: UnconfirmedReason };
+
+// ===== LEDGER =====
+// Every trade of one round, collected until the round crashes
+export interface RoundTradeLog {
+  roundNumber: number;           // Engine round counter (restarts on reload)
+  nonce: number;                 // Fairness nonce of the round
+  serverSeedHash: string;        // Unique per round, survives reloads
+  crashPoint: number;
+  startedAt: number;
+  endedAt: number;
+  trades: TradeAction[];
+}
+
+export type SettlementOutcome = 'won' | 'lost' | 'crashed';
+export type SettlementMode = 'paper' | 'real' | 'mixed';
+
+// Immutable result of one round, derived from its RoundTradeLog
+export interface RoundSettlement {
+  readonly id: string;                    // serverSeedHash, or a legacy id for migrated rounds
+  readonly roundNumber: number;
+  readonly nonce: number;
+  readonly serverSeedHash: string;
+  readonly crashPoint: number;
+  readonly startedAt: number;
+  readonly settledAt: number;
+  readonly mode: SettlementMode;
+  readonly asset: AssetId;                // Every amount below is in this asset
+  readonly trades: readonly TradeAction[];
+  readonly totalBought: number;           // Stake paid in
+  readonly totalPaidOut: number;          // Returned by sells; crash closes pay nothing
+  readonly fees: number;
+  readonly realizedPnL: number;           // totalPaidOut - totalBought - fees
+  readonly averageEntry: number;          // Weighted entry across every buy
+  readonly averageExit: number;           // Amount-weighted multiplier of paid sells, 0 if none
+  readonly forceClosed: boolean;          // The crash closed (part of) the position
+  readonly outcome: SettlementOutcome;    // crashed beats won/lost when the crash closed the position
+}
@@ -0,0 +1,59 @@
+import type React from 'react';
+import { createContext, useState, useEffect, type ReactNode, useContext } from 'react';
+import { ProvablyFair } from '../lib/fairness';
+
+// The local seed manager. The seeds of the rounds being played come from
+// RoundFairnessContext, which also follows a realtime server.
+interface FairnessContextType {
+  fairness: ProvablyFair;
+  clientSeed: string;
+  setClientSeed: (clientSeed: string) => void;
+  distribution: string;
+  setDistribution: (distribution: string) => void;
+}
+
+const FairnessContext = createContext<FairnessContextType | undefined>(undefined);
+
+export const FairnessProvider: React.FC<{children: ReactNode}> = ({ children }) => {
+  const [fairness] = useState(() => new ProvablyFair());
+  const [clientSeed, setClientSeedState] = useState<string>(() => fairness.getClientSeed());
+  const [distribution, setDistributionState] = useState<string>(() => fairness.getDistribution());
+
+  // Mirror the seed manager into React state
+  useEffect(() => {
+    return fairness.subscribe(() => {
+      setClientSeedState(fairness.getClientSeed());
+      setDistributionState(fairness.getDistribution());
+    });
+  }, [fairness]);
+
+  const setClientSeed = (seed: string) => {
+    fairness.setClientSeed(seed);
+    console.log('🎲 Client seed updated:', seed);
+  };
+
+  const setDistribution = (preset: string) => {
+    fairness.setDistribution(preset);
+    console.log('📊 Crash distribution preset:', preset);
+  };
+
+  return (
+    <FairnessContext.Provider value={{
+      fairness,
+      clientSeed,
+      setClientSeed,
+      distribution,
+      setDistribution
+    }}>
+      {children}
+    </FairnessContext.Provider>
+  );
+};
+
+export const useFairness = () => {
+  const context = useContext(FairnessContext);
+  if (context === undefined) {
+    throw new Error('useFairness must be used within a FairnessProvider');
+  }
+  return context;
+};
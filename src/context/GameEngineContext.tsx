@@ -0,0 +1,34 @@
+import type React from 'react';
+import { createContext, useState, useEffect, type ReactNode, useContext } from 'react';
+import { GameEngine, type GameSource } from '../lib/game-engine';
+import { useFairness } from './FairnessContext';
+import { useRealtime } from './RealtimeContext';
+
+const GameEngineContext = createContext<GameSource | undefined>(undefined);
+
+export const GameEngineProvider: React.FC<{children: ReactNode}> = ({ children }) => {
+  const { fairness } = useFairness();
+  const { client } = useRealtime();
+  const [engine] = useState<GameSource>(() => client ?? new GameEngine(fairness));
+
+  // Run the round loop (or follow the server's) for as long as the app is mounted
+  useEffect(() => {
+    engine.start();
+    console.log(client ? `🌐 Following rounds from ${client.url}` : '🎮 Game engine started');
+    return () => engine.stop();
+  }, [engine, client]);
+
+  return (
+    <GameEngineContext.Provider value={engine}>
+      {children}
+    </GameEngineContext.Provider>
+  );
+};
+
+export const useGameEngine = () => {
+  const context = useContext(GameEngineContext);
+  if (context === undefined) {
+    throw new Error('useGameEngine must be used within a GameEngineProvider');
+  }
+  return context;
+};
@@ -0,0 +1,53 @@
+import type React from 'react';
+import { createContext, useState, useEffect, type ReactNode, useContext } from 'react';
+import { type ConnectionStatus, RealtimeGameClient } from '../lib/realtime-client';
+
+interface RealtimeContextType {
+  client: RealtimeGameClient | null;  // Null when rounds run on the local engine
+  status: ConnectionStatus;
+  error: string | null;               // Why the connection was given up, if it was
+  playerId: string | null;
+}
+
+const RealtimeContext = createContext<RealtimeContextType | undefined>(undefined);
+
+// Multiplayer is opt-in: set VITE_REALTIME_URL (e.g. ws://localhost:8787) to
+// play rounds from `npm run server` instead of the in-browser engine
+export const RealtimeProvider: React.FC<{children: ReactNode; url?: string}> = ({
+  children,
+  url = import.meta.env.VITE_REALTIME_URL,
+}) => {
+  const [client] = useState(() => url ? new RealtimeGameClient(url) : null);
+  const [status, setStatus] = useState<ConnectionStatus>(() => client?.getStatus() ?? 'idle');
+  const [error, setError] = useState<string | null>(null);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+
+  // The game engine provider starts and stops the client; just mirror it
+  useEffect(() => {
+    if (!client) return;
+    const unsubscribers = [
+      client.on('status', (event) => {
+        setStatus(event.status);
+        setError(event.error);
+      }),
+      client.on('welcome', (welcome) => setPlayerId(welcome.playerId)),
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [client]);
+
+  return (
+    <RealtimeContext.Provider value={{ client, status, error, playerId }}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+};
+
+export const useRealtime = () => {
+  const context = useContext(RealtimeContext);
+  if (context === undefined) {
+    throw new Error('useRealtime must be used within a RealtimeProvider');
+  }
+  return context;
+};
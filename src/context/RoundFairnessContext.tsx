@@ -0,0 +1,59 @@
+import type React from 'react';
+import { createContext, useState, useEffect, type ReactNode, useContext } from 'react';
+import type { RevealedRound, SeedCommitment } from '../lib/fairness';
+import { useGameEngine } from './GameEngineContext';
+import { useRealtime } from './RealtimeContext';
+
+const MAX_REVEALED_ROUNDS = 50;
+
+interface RoundFairnessContextType {
+  commitment: SeedCommitment | null;  // Null until a server has announced one
+  revealedRounds: RevealedRound[];    // Newest first
+  findRound: (nonce: number) => RevealedRound | null;
+  seedsFromServer: boolean;           // The server picks the client seed; the local one is unused
+}
+
+const RoundFairnessContext = createContext<RoundFairnessContextType | undefined>(undefined);
+
+// Seeds of the rounds actually being played, from whichever source runs them.
+// The local seed manager only produces rounds when there is no server.
+export const RoundFairnessProvider: React.FC<{children: ReactNode}> = ({ children }) => {
+  const engine = useGameEngine();
+  const { client } = useRealtime();
+  const [commitment, setCommitment] = useState<SeedCommitment | null>(() => engine.getCommitment());
+  const [revealedRounds, setRevealedRounds] = useState<RevealedRound[]>([]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      engine.on('roundStart', (event) => setCommitment(event.commitment)),
+      engine.on('crash', ({ revealed }) => {
+        // The local engine commits to the next round as soon as it reveals
+        setCommitment(engine.getCommitment());
+        if (!revealed) return;
+        setRevealedRounds(prev => [revealed, ...prev].slice(0, MAX_REVEALED_ROUNDS));
+      }),
+    ];
+    if (client) {
+      unsubscribers.push(client.on('welcome', (welcome) => setCommitment(welcome.commitment)));
+    }
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [engine, client]);
+
+  const findRound = (nonce: number) => revealedRounds.find(round => round.nonce === nonce) ?? null;
+
+  return (
+    <RoundFairnessContext.Provider value={{ commitment, revealedRounds, findRound, seedsFromServer: client !== null }}>
+      {children}
+    </RoundFairnessContext.Provider>
+  );
+};
+
+export const useRoundFairness = () => {
+  const context = useContext(RoundFairnessContext);
+  if (context === undefined) {
+    throw new Error('useRoundFairness must be used within a RoundFairnessProvider');
+  }
+  return context;
+};
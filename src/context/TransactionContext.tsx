@@ -0,0 +1,117 @@
+import type React from 'react';
+import { createContext, useState, useEffect, useRef, type ReactNode, useContext } from 'react';
+import type { AssetId } from '../lib/assets';
+import { SimulatedTransactionBackend } from '../lib/simulated-transactions';
+import {
+  checkWithdrawal,
+  type TransactionBackend,
+  type WalletTransaction,
+  type WithdrawalRejection
+} from '../lib/transaction-backend';
+import { useBetting } from './BettingContext';
+import { useWallet } from './WalletContext';
+
+export type WithdrawResult =
+  | { status: 'submitted'; transaction: WalletTransaction }
+  | WithdrawalRejection;
+
+interface TransactionContextType {
+  backend: TransactionBackend;
+  transactions: WalletTransaction[];   // Newest first
+  pendingCount: number;
+  findTransaction: (id: string) => WalletTransaction | undefined;
+  deposit: (asset: AssetId, amount: number) => Promise<WalletTransaction>;   // Throws WalletError
+  withdraw: (asset: AssetId, amount: number, address: string) => WithdrawResult;
+}
+
+const TransactionContext = createContext<TransactionContextType | undefined>(undefined);
+
+// Deposits are credited to the game balance once confirmed. Withdrawals hold
+// amount + fee straight away and refund it if the transaction fails.
+export const TransactionProvider: React.FC<{children: ReactNode; backend?: TransactionBackend}> = ({ children, backend: providedBackend }) => {
+  const [backend] = useState<TransactionBackend>(() => providedBackend ?? new SimulatedTransactionBackend());
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const { balances, adjustBalance } = useBetting();
+  const { adapter, account } = useWallet();
+
+  const upsertTransaction = (transaction: WalletTransaction) => {
+    setTransactions(prev => prev.some(existing => existing.id === transaction.id)
+      ? prev.map(existing => existing.id === transaction.id ? transaction : existing)
+      : [transaction, ...prev]);
+  };
+
+  // Apply a transaction's balance effects when it settles
+  const handleUpdate = (transaction: WalletTransaction) => {
+    upsertTransaction(transaction);
+    const { type, status, asset, amount, fee, address } = transaction;
+
+    if (type === 'deposit' && status === 'confirmed') {
+      adjustBalance(asset, amount);
+      console.log('💵 Deposit confirmed:', { asset, amount, id: transaction.id });
+    } else if (type === 'deposit' && status === 'failed') {
+      // The wallet already sent the funds; hand them back
+      adapter.withdraw(asset, amount).catch(error => console.warn('⚠️ Could not return failed deposit:', error));
+      console.log('❌ Deposit failed:', { asset, amount, reason: transaction.failureReason });
+    } else if (type === 'withdraw' && status === 'confirmed') {
+      // Funds sent to the connected wallet show up in its balance
+      if (account?.address === address) {
+        adapter.withdraw(asset, amount).catch(error => console.warn('⚠️ Wallet did not record withdrawal:', error));
+      }
+      console.log('💸 Withdrawal confirmed:', { asset, amount, address, id: transaction.id });
+    } else if (type === 'withdraw' && status === 'failed') {
+      adjustBalance(asset, amount + fee);
+      console.log('❌ Withdrawal failed, funds returned:', { asset, amount, fee, reason: transaction.failureReason });
+    }
+  };
+
+  // The backend subscription lives for the provider; the ref keeps it on
+  // the latest handler so it sees the current wallet account
+  const handleUpdateRef = useRef(handleUpdate);
+  handleUpdateRef.current = handleUpdate;
+
+  useEffect(() => backend.on('update', transaction => handleUpdateRef.current(transaction)), [backend]);
+
+  const deposit = async (asset: AssetId, amount: number): Promise<WalletTransaction> => {
+    const transfer = await adapter.deposit(asset, amount);
+    const transaction = backend.trackDeposit(transfer);
+    upsertTransaction(transaction);
+    console.log('📥 Deposit sent:', { asset, amount, id: transaction.id });
+    return transaction;
+  };
+
+  const withdraw = (asset: AssetId, amount: number, address: string): WithdrawResult => {
+    const policy = backend.getWithdrawalPolicy(asset);
+    const rejection = checkWithdrawal(amount, address, balances[asset], policy);
+    if (rejection) {
+      console.log('🚫 Withdrawal blocked:', rejection);
+      return rejection;
+    }
+
+    adjustBalance(asset, -(amount + policy.fee));
+    const transaction = backend.submitWithdrawal(asset, amount, address.trim());
+    upsertTransaction(transaction);
+    console.log('📤 Withdrawal submitted:', { asset, amount, fee: policy.fee, address, id: transaction.id });
+    return { status: 'submitted', transaction };
+  };
+
+  return (
+    <TransactionContext.Provider value={{
+      backend,
+      transactions,
+      pendingCount: transactions.filter(transaction => transaction.status === 'pending').length,
+      findTransaction: (id: string) => transactions.find(transaction => transaction.id === id),
+      deposit,
+      withdraw
+    }}>
+      {children}
+    </TransactionContext.Provider>
+  );
+};
+
+export const useTransactions = () => {
+  const context = useContext(TransactionContext);
+  if (context === undefined) {
+    throw new Error('useTransactions must be used within a TransactionProvider');
+  }
+  return context;
+};
@@ -0,0 +1,96 @@
+import type React from 'react';
+import { createContext, useState, useEffect, type ReactNode, useContext } from 'react';
+import { MockWalletAdapter } from '../lib/mock-wallet';
+import {
+  type SignedMessage,
+  type WalletAccount,
+  type WalletAdapter,
+  WalletError,
+  type WalletStatus
+} from '../lib/wallet-adapter';
+
+interface WalletContextType {
+  adapter: WalletAdapter;
+  status: WalletStatus;
+  account: WalletAccount | null;
+  isConnected: boolean;
+  error: string | null;          // Last connect/disconnect failure
+  connect: () => Promise<boolean>;
+  disconnect: () => Promise<void>;
+  signMessage: (message: string) => Promise<SignedMessage>;
+}
+
+const WalletContext = createContext<WalletContextType | undefined>(undefined);
+
+// The mock wallet stands in until a real adapter is passed
+export const WalletProvider: React.FC<{children: ReactNode; adapter?: WalletAdapter}> = ({ children, adapter: providedAdapter }) => {
+  const [adapter] = useState<WalletAdapter>(() => providedAdapter ?? new MockWalletAdapter());
+  const [account, setAccount] = useState<WalletAccount | null>(() => adapter.getAccount());
+  const [status, setStatus] = useState<WalletStatus>(() => adapter.getAccount() ? 'connected' : 'disconnected');
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow the wallet itself, which can also disconnect on its own
+  useEffect(() => {
+    const unsubscribers = [
+      adapter.on('connect', (connected) => {
+        setAccount(connected);
+        setStatus('connected');
+      }),
+      adapter.on('disconnect', () => {
+        setAccount(null);
+        setStatus('disconnected');
+      })
+    ];
+    return () => {
+      for (const unsubscribe of unsubscribers) unsubscribe();
+    };
+  }, [adapter]);
+
+  const connect = async (): Promise<boolean> => {
+    setStatus('connecting');
+    setError(null);
+    try {
+      const connected = await adapter.connect();
+      setAccount(connected);
+      setStatus('connected');
+      console.log('👛 Wallet connected:', connected.address);
+      return true;
+    } catch (err) {
+      const message = err instanceof WalletError ? err.message : 'Could not connect wallet';
+      console.warn('⚠️ Wallet connection failed:', err);
+      setError(message);
+      setStatus(adapter.getAccount() ? 'connected' : 'disconnected');
+      return false;
+    }
+  };
+
+  const disconnect = async () => {
+    await adapter.disconnect();
+    setAccount(null);
+    setStatus('disconnected');
+    console.log('👛 Wallet disconnected');
+  };
+
+  return (
+    <WalletContext.Provider value={{
+      adapter,
+      status,
+      account,
+      isConnected: status === 'connected',
+      error,
+      connect,
+      disconnect,
+      signMessage: (message: string) => adapter.signMessage(message)
+    }}>
+      {children}
+    </WalletContext.Provider>
+  );
+};
+
+export const useWallet = () => {
+  const context = useContext(WalletContext);
+  if (context === undefined) {
+    throw new Error('useWallet must be used within a WalletProvider');
+  }
+  return context;
+};
@@ -0,0 +1,28 @@
+import { useMemo } from 'react';
+import { useBetting } from '../context/BettingContext';
+import type { RoundSettlement, SettlementMode } from '../context/BettingContext.types';
+import { type LedgerTotals, summarizeSettlements } from '../lib/round-ledger';
+
+export interface RoundLedger {
+  settlements: readonly RoundSettlement[];   // Newest first
+  totals: LedgerTotals;
+  findSettlement: (id: string) => RoundSettlement | undefined;
+}
+
+/**
+ * Settled rounds from the betting ledger, optionally limited to one mode
+ */
+export const useRoundLedger = (mode?: SettlementMode): RoundLedger => {
+  const { tradeLedger } = useBetting();
+
+  return useMemo(() => {
+    const settlements = tradeLedger
+      .filter(settlement => mode === undefined || settlement.mode === mode)
+      .reverse();
+    return {
+      settlements,
+      totals: summarizeSettlements(settlements),
+      findSettlement: (id: string) => settlements.find(settlement => settlement.id === id),
+    };
+  }, [tradeLedger, mode]);
+};
@@ -0,0 +1,86 @@
+/**
+ * Assets
+ * Currencies the player can bet in. Each has its own wallet balance,
+ * precision and bet limits; positions, PnL and settlements are kept in the
+ * asset they were placed in.
+ */
+
+import { type BetLimits, DEFAULT_BET_LIMITS } from './bet-limits';
+
+export type AssetId = 'SOL' | 'USDC' | 'FREE';
+
+export interface AssetConfig {
+  id: AssetId;
+  name: string;
+  decimals: number;              // Smallest unit; stakes are rounded to it
+  displayDecimals: number;       // Precision of balances and PnL in the UI
+  isPaper: boolean;              // Play money - settlements count as paper
+  startingBalance: number;
+  limits: BetLimits;             // Default limits, adjustable per session
+}
+
+export const ASSETS: Record<AssetId, AssetConfig> = {
+  SOL: {
+    id: 'SOL',
+    name: 'Solana',
+    decimals: 9,
+    displayDecimals: 3,
+    isPaper: false,
+    startingBalance: 10000,
+    limits: DEFAULT_BET_LIMITS,
+  },
+  USDC: {
+    id: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    displayDecimals: 2,
+    isPaper: false,
+    startingBalance: 10000,
+    limits: { minBet: 0.1, maxBet: 10000, maxPayoutPerRound: 100000, maxProfitPerBet: 50000 },
+  },
+  FREE: {
+    id: 'FREE',
+    name: 'Paper money',
+    decimals: 9,
+    displayDecimals: 3,
+    isPaper: true,
+    startingBalance: 1000,
+    limits: DEFAULT_BET_LIMITS,
+  },
+};
+
+export const ASSET_IDS = Object.keys(ASSETS) as AssetId[];
+
+// Assets that can be deposited and withdrawn - play money never leaves the game
+export const TRANSFERABLE_ASSET_IDS = ASSET_IDS.filter(id => !ASSETS[id].isPaper);
+
+export const DEFAULT_ASSET: AssetId = 'SOL';
+
+// Asset of records made before multi-asset balances existed
+export const LEGACY_REAL_ASSET: AssetId = 'SOL';
+export const LEGACY_PAPER_ASSET: AssetId = 'FREE';
+
+export const isAssetId = (value: unknown): value is AssetId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(ASSETS, value);
+
+export const createStartingBalances = (): Record<AssetId, number> =>
+  Object.fromEntries(ASSET_IDS.map(id => [id, ASSETS[id].startingBalance])) as Record<AssetId, number>;
+
+export const createDefaultLimits = (): Record<AssetId, BetLimits> =>
+  Object.fromEntries(ASSET_IDS.map(id => [id, ASSETS[id].limits])) as Record<AssetId, BetLimits>;
+
+/**
+ * Round an amount down to the asset's smallest unit
+ */
+export const roundToAssetUnits = (amount: number, asset: AssetId): number => {
+  const factor = 10 ** ASSETS[asset].decimals;
+  return Math.floor(amount * factor + 1e-6) / factor;
+};
+
+/**
+ * Amount at the asset's display precision, e.g. "12.345 SOL"
+ */
+export const formatAssetAmount = (amount: number, asset: AssetId, options: { signed?: boolean } = {}): string => {
+  const sign = options.signed && amount >= 0 ? '+' : '';
+  return `${sign}${amount.toFixed(ASSETS[asset].displayDecimals)} ${asset}`;
+};
@@ -0,0 +1,140 @@
+/**
+ * Auto-Bet Strategies
+ * Pure sizing and stop-condition logic for the auto-bet runner. The betting
+ * context owns the side effects; this module only decides how much to stake
+ * next and when to stop.
+ */
+
+export type AutoBetStrategy = 'fixed' | 'martingale' | 'anti-martingale';
+
+export type AutoBetStopReason =
+  | 'manual'
+  | 'max-rounds'
+  | 'profit-target'
+  | 'loss-limit'
+  | 'insufficient-balance'
+  | 'rejected';                // The bet failed placement checks (e.g. invalid auto orders)
+
+export interface AutoBetConfig {
+  strategy: AutoBetStrategy;
+  baseAmount: number;
+  multiplier: number;          // Stake factor after a loss (martingale) or win (anti-martingale)
+  maxRounds?: number;
+  profitTarget?: number;       // Stop once net profit reaches this
+  lossLimit?: number;          // Stop once net loss reaches this (positive number)
+}
+
+export interface AutoBetState {
+  active: boolean;
+  roundsPlayed: number;
+  wins: number;
+  losses: number;
+  netProfit: number;
+  totalStaked: number;
+  nextAmount: number;
+  streak: number;              // Positive = consecutive wins, negative = consecutive losses
+  stopReason: AutoBetStopReason | null;
+}
+
+export const AUTO_BET_STRATEGIES: Record<AutoBetStrategy, { label: string; description: string }> = {
+  fixed: { label: 'Fixed', description: 'Same stake every round' },
+  martingale: { label: 'Martingale', description: 'Multiply the stake after a loss, reset after a win' },
+  'anti-martingale': { label: 'Anti-Martingale', description: 'Multiply the stake after a win, reset after a loss' },
+};
+
+export const AUTO_BET_STOP_LABELS: Record<AutoBetStopReason, string> = {
+  manual: 'Stopped',
+  'max-rounds': 'Max rounds reached',
+  'profit-target': 'Profit target hit',
+  'loss-limit': 'Loss limit hit',
+  'insufficient-balance': 'Insufficient balance',
+  rejected: 'Bet rejected',
+};
+
+/**
+ * List every problem with a config. An empty list means it can run.
+ */
+export const validateAutoBetConfig = (config: AutoBetConfig): string[] => {
+  const errors: string[] = [];
+  if (!(config.baseAmount > 0)) errors.push('Base amount must be above 0');
+  if (config.strategy !== 'fixed' && !(config.multiplier >= 1)) errors.push('Multiplier must be at least 1');
+  if (config.maxRounds !== undefined && !(Number.isInteger(config.maxRounds) && config.maxRounds > 0)) {
+    errors.push('Max rounds must be a positive whole number');
+  }
+  if (config.profitTarget !== undefined && !(config.profitTarget > 0)) errors.push('Profit target must be above 0');
+  if (config.lossLimit !== undefined && !(config.lossLimit > 0)) errors.push('Loss limit must be above 0');
+  return errors;
+};
+
+/**
+ * Fresh runner state for a config
+ */
+export const createAutoBetState = (config: AutoBetConfig): AutoBetState => ({
+  active: true,
+  roundsPlayed: 0,
+  wins: 0,
+  losses: 0,
+  netProfit: 0,
+  totalStaked: 0,
+  nextAmount: config.baseAmount,
+  streak: 0,
+  stopReason: null,
+});
+
+// Stake for the round after a win or loss
+const nextStake = (config: AutoBetConfig, previous: number, won: boolean): number => {
+  switch (config.strategy) {
+    case 'martingale':
+      return won ? config.baseAmount : previous * config.multiplier;
+    case 'anti-martingale':
+      return won ? previous * config.multiplier : config.baseAmount;
+    default:
+      return config.baseAmount;
+  }
+};
+
+/**
+ * Stop condition reached by a state, if any
+ */
+export const getAutoBetStopReason = (state: AutoBetState, config: AutoBetConfig): AutoBetStopReason | null => {
+  if (config.maxRounds !== undefined && state.roundsPlayed >= config.maxRounds) return 'max-rounds';
+  if (config.profitTarget !== undefined && state.netProfit >= config.profitTarget) return 'profit-target';
+  if (config.lossLimit !== undefined && -state.netProfit >= config.lossLimit) return 'loss-limit';
+  return null;
+};
+
+/**
+ * Fold one settled round into the state. A round is a win when the payouts
+ * exceed the stake.
+ */
+export const recordAutoBetRound = (
+  state: AutoBetState,
+  config: AutoBetConfig,
+  stake: number,
+  payout: number,
+): AutoBetState => {
+  const profit = payout - stake;
+  const won = profit > 0;
+  const next: AutoBetState = {
+    ...state,
+    roundsPlayed: state.roundsPlayed + 1,
+    wins: state.wins + (won ? 1 : 0),
+    losses: state.losses + (won ? 0 : 1),
+    netProfit: state.netProfit + profit,
+    totalStaked: state.totalStaked + stake,
+    nextAmount: nextStake(config, stake, won),
+    streak: won ? Math.max(state.streak, 0) + 1 : Math.min(state.streak, 0) - 1,
+  };
+
+  const stopReason = getAutoBetStopReason(next, config);
+  return stopReason ? { ...next, active: false, stopReason } : next;
+};
+
+/**
+ * Mark a state as stopped
+ */
+export const stopAutoBetState = (state: AutoBetState, reason: AutoBetStopReason): AutoBetState => ({
+  ...state,
+  active: false,
+  stopReason: reason,
+});
@@ -0,0 +1,102 @@
+/**
+ * Bet Limits
+ * Stake rules checked when a bet is placed, and the payout caps that close
+ * positions before they exceed the house's liability for a round.
+ */
+
+export interface BetLimits {
+  minBet: number;
+  maxBet: number;                // Per position, including amounts added mid-round
+  maxPayoutPerRound: number;     // Total a player can be paid in one round
+  maxProfitPerBet: number;       // Unrealized profit at which the position is closed
+}
+
+export const DEFAULT_BET_LIMITS: BetLimits = {
+  minBet: 0.001,
+  maxBet: 100,
+  maxPayoutPerRound: 1000,
+  maxProfitPerBet: 500,
+};
+
+export type BetRejection =
+  | { status: 'invalid-amount' }
+  | { status: 'insufficient-balance'; balance: number }
+  | { status: 'below-min-bet'; minBet: number }
+  | { status: 'above-max-bet'; maxBet: number; positionAmount: number }
+  | { status: 'max-payout-reached'; maxPayout: number }
+  | { status: 'invalid-order'; message: string };     // Auto cash-out / stop-loss inputs
+
+export interface BetContext {
+  balance: number;               // Balance the stake is paid from
+  positionAmount: number;        // Stake already in the open position (0 if none)
+  paidOutThisRound: number;
+  fee?: number;                  // Charged on top of the stake
+}
+
+/**
+ * List every problem with a limits config. An empty list means it is usable.
+ */
+export const validateBetLimits = (limits: BetLimits): string[] => {
+  const errors: string[] = [];
+  if (!(limits.minBet > 0)) errors.push('Min bet must be above 0');
+  if (!(limits.maxBet >= limits.minBet)) errors.push('Max bet must be at least the min bet');
+  if (!(limits.maxPayoutPerRound > 0)) errors.push('Max payout must be above 0');
+  if (!(limits.maxProfitPerBet > 0)) errors.push('Max profit must be above 0');
+  return errors;
+};
+
+/**
+ * First rule a stake breaks, or null if it can be placed
+ */
+export const checkBet = (amount: number, context: BetContext, limits: BetLimits): BetRejection | null => {
+  if (!Number.isFinite(amount) || amount <= 0) return { status: 'invalid-amount' };
+  if (amount + (context.fee ?? 0) > context.balance) return { status: 'insufficient-balance', balance: context.balance };
+  if (amount < limits.minBet) return { status: 'below-min-bet', minBet: limits.minBet };
+  if (context.positionAmount + amount > limits.maxBet) {
+    return { status: 'above-max-bet', maxBet: limits.maxBet, positionAmount: context.positionAmount };
+  }
+  if (context.paidOutThisRound >= limits.maxPayoutPerRound) {
+    return { status: 'max-payout-reached', maxPayout: limits.maxPayoutPerRound };
+  }
+  return null;
+};
+
+/**
+ * Multiplier at which an open position hits the round payout cap or the
+ * profit cap, whichever comes first. The position is worth
+ * amount * multiplier / entry.
+ */
+export const getCapMultiplier = (
+  amount: number,
+  entryMultiplier: number,
+  paidOutThisRound: number,
+  limits: BetLimits,
+): number => {
+  if (amount <= 0) return Number.POSITIVE_INFINITY;
+  const payoutRoom = Math.max(0, limits.maxPayoutPerRound - paidOutThisRound);
+  const payoutCap = entryMultiplier * payoutRoom / amount;
+  const profitCap = entryMultiplier * (amount + limits.maxProfitPerBet) / amount;
+  return Math.min(payoutCap, profitCap);
+};
+
+/**
+ * Player-facing text for a rejection
+ */
+export const describeBetRejection = (rejection: BetRejection): string => {
+  switch (rejection.status) {
+    case 'invalid-amount':
+      return 'Enter a bet amount above 0';
+    case 'insufficient-balance':
+      return `Insufficient balance (${rejection.balance.toFixed(3)} available)`;
+    case 'below-min-bet':
+      return `Minimum bet is ${rejection.minBet}`;
+    case 'above-max-bet':
+      return rejection.positionAmount > 0
+        ? `Maximum position is ${rejection.maxBet} (${rejection.positionAmount.toFixed(3)} already in)`
+        : `Maximum bet is ${rejection.maxBet}`;
+    case 'max-payout-reached':
+      return `This round's payout limit of ${rejection.maxPayout} has been reached`;
+    case 'invalid-order':
+      return rejection.message;
+  }
+};
@@ -0,0 +1,267 @@
+/**
+ * Betting Storage
+ * Persists balances and the round settlement ledger across reloads. Uses
+ * IndexedDB when it is available and falls back to localStorage, then to
+ * memory. Saved data carries a schema version and is migrated on load.
+ */
+
+import type { RoundSettlement, RoundTradeLog } from '../context/BettingContext.types';
+import {
+  ASSET_IDS,
+  type AssetId,
+  createStartingBalances,
+  LEGACY_PAPER_ASSET,
+  LEGACY_REAL_ASSET
+} from './assets';
+import { freezeSettlement, settleRound } from './round-ledger';
+
+export const STORAGE_VERSION = 3;
+
+export interface PersistedBettingState {
+  version: typeof STORAGE_VERSION;
+  balances: Record<AssetId, number>;
+  ledger: RoundSettlement[];
+  savedAt: number;
+}
+
+/**
+ * Where the serialized state lives
+ */
+export interface StorageBackend {
+  readonly name: 'indexeddb' | 'localstorage' | 'memory';
+  read(): Promise<unknown>;
+  write(data: PersistedBettingState): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'crash-game';
+const DB_VERSION = 1;            // IndexedDB object-store layout, not the data schema
+const STORE_NAME = 'betting';
+const RECORD_KEY = 'state';
+const LOCAL_STORAGE_KEY = 'crash-game:betting';
+
+// ===== BACKENDS =====
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+  });
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+  const store = (mode: IDBTransactionMode) => db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    name: 'indexeddb',
+    read: () => requestToPromise(store('readonly').get(RECORD_KEY)),
+    write: async (data) => { await requestToPromise(store('readwrite').put(data, RECORD_KEY)); },
+    clear: async () => { await requestToPromise(store('readwrite').delete(RECORD_KEY)); },
+  };
+};
+
+export const createLocalStorageBackend = (): StorageBackend => ({
+  name: 'localstorage',
+  read: async () => {
+    const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+    return raw === null ? undefined : JSON.parse(raw);
+  },
+  write: async (data) => localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(data)),
+  clear: async () => localStorage.removeItem(LOCAL_STORAGE_KEY),
+});
+
+export const createMemoryBackend = (): StorageBackend => {
+  let stored: PersistedBettingState | undefined;
+  return {
+    name: 'memory',
+    read: async () => stored,
+    write: async (data) => { stored = data; },
+    clear: async () => { stored = undefined; },
+  };
+};
+
+const hasLocalStorage = (): boolean => {
+  try {
+    const probe = `${LOCAL_STORAGE_KEY}:probe`;
+    localStorage.setItem(probe, probe);
+    localStorage.removeItem(probe);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Best available backend: IndexedDB, then localStorage, then memory
+ */
+export const resolveBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await createIndexedDbBackend();
+    } catch (error) {
+      console.warn('⚠️ IndexedDB unavailable, falling back to localStorage:', error);
+    }
+  }
+  if (typeof localStorage !== 'undefined' && hasLocalStorage()) {
+    return createLocalStorageBackend();
+  }
+  console.warn('⚠️ No persistent storage available, betting state will not survive a reload');
+  return createMemoryBackend();
+};
+
+// ===== SCHEMA =====
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from. Add one entry per
+ * schema bump; load runs them in order up to STORAGE_VERSION.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 0 → 1: unversioned flat BettingProvider state with a single trade list
+  0: (data) => {
+    const trades = Array.isArray(data.tradeActions) ? data.tradeActions : [];
+    const now = Date.now();
+    return {
+      balance: data.balance,
+      paperBalance: data.paperBalance,
+      ledger: trades.length > 0
+        ? [{ roundNumber: 0, nonce: 0, serverSeedHash: '', crashPoint: 0, startedAt: now, endedAt: now, trades }]
+        : [],
+      version: 1,
+      savedAt: now,
+    };
+  },
+  // 1 → 2: raw per-round trade logs become settlement records
+  1: (data) => ({
+    ...data,
+    ledger: Array.isArray(data.ledger) ? (data.ledger as RoundTradeLog[]).map(settleRound) : [],
+    version: 2,
+  }),
+  // 2 → 3: real and paper balances become a wallet keyed by asset
+  2: ({ balance, paperBalance, ...data }) => ({
+    ...data,
+    balances: { [LEGACY_REAL_ASSET]: balance, [LEGACY_PAPER_ASSET]: paperBalance },
+    ledger: Array.isArray(data.ledger)
+      ? (data.ledger as Omit<RoundSettlement, 'asset'>[]).map(settlement => ({
+        ...settlement,
+        asset: settlement.mode === 'paper' ? LEGACY_PAPER_ASSET : LEGACY_REAL_ASSET,
+      }))
+      : [],
+    version: 3,
+  }),
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Stored balances over the starting wallet, so assets added since the last
+// save start funded. Null if a stored balance is not a number.
+const readBalances = (value: unknown): Record<AssetId, number> | null => {
+  if (!isRecord(value)) return null;
+  const balances = createStartingBalances();
+  for (const id of ASSET_IDS) {
+    if (value[id] === undefined) continue;
+    if (!isFiniteNumber(value[id])) return null;
+    balances[id] = value[id];
+  }
+  return balances;
+};
+
+/**
+ * Upgrade stored data to the current schema. Returns null for data that is
+ * missing, corrupt or written by a newer version.
+ */
+export const migrateBettingState = (raw: unknown): PersistedBettingState | null => {
+  if (!isRecord(raw)) return null;
+
+  let data = raw;
+  let version = isFiniteNumber(data.version) ? data.version : 0;
+
+  if (version > STORAGE_VERSION) {
+    console.warn(`⚠️ Stored betting data is schema v${version}, newer than v${STORAGE_VERSION}; ignoring it`);
+    return null;
+  }
+
+  while (version < STORAGE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      console.warn(`⚠️ No migration from betting schema v${version}; ignoring stored data`);
+      return null;
+    }
+    data = migrate(data);
+    version++;
+    console.log(`🗄️ Migrated betting data to schema v${version}`);
+  }
+
+  const balances = readBalances(data.balances);
+  if (!balances || !Array.isArray(data.ledger)) {
+    console.warn('⚠️ Stored betting data failed validation; ignoring it');
+    return null;
+  }
+
+  return {
+    version: STORAGE_VERSION,
+    balances,
+    ledger: (data.ledger as RoundSettlement[]).map(freezeSettlement),
+    savedAt: isFiniteNumber(data.savedAt) ? data.savedAt : Date.now(),
+  };
+};
+
+// ===== STORE =====
+
+/**
+ * Load/save facade. The backend is resolved once on construction and writes
+ * are serialized so a slow IndexedDB put never lands after a newer one.
+ */
+export class BettingStorage {
+  private backend: Promise<StorageBackend>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(backend?: StorageBackend) {
+    this.backend = backend ? Promise.resolve(backend) : resolveBackend();
+  }
+
+  async getBackendName(): Promise<StorageBackend['name']> {
+    return (await this.backend).name;
+  }
+
+  async load(): Promise<PersistedBettingState | null> {
+    try {
+      const backend = await this.backend;
+      return migrateBettingState(await backend.read());
+    } catch (error) {
+      console.warn('⚠️ Failed to load betting data:', error);
+      return null;
+    }
+  }
+
+  save(state: Omit<PersistedBettingState, 'version' | 'savedAt'>): Promise<void> {
+    const data: PersistedBettingState = { ...state, version: STORAGE_VERSION, savedAt: Date.now() };
+    this.pendingWrite = this.pendingWrite
+      .then(async () => (await this.backend).write(data))
+      .catch(error => console.warn('⚠️ Failed to save betting data:', error));
+    return this.pendingWrite;
+  }
+
+  async clear(): Promise<void> {
+    await this.pendingWrite;
+    await (await this.backend).clear();
+  }
+}
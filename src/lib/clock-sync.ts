@@ -0,0 +1,67 @@
+/**
+ * Clock Sync
+ * Estimates the offset between the local clock and the game server's from
+ * ping/pong round trips, so server timestamps can be replayed on local time.
+ */
+
+export interface ClockSample {
+  rttMs: number;
+  offsetMs: number;              // Server clock minus local clock
+}
+
+export class ClockOffsetEstimator {
+  private samples: ClockSample[] = [];
+  private seededOffset: number | null = null;
+  private maxSamples: number;
+
+  constructor(maxSamples = 8) {
+    this.maxSamples = maxSamples;
+  }
+
+  /**
+   * Record a ping round trip. Assumes the pong was stamped halfway through it.
+   */
+  addSample(sentAt: number, serverTime: number, receivedAt: number): ClockSample {
+    const rttMs = Math.max(0, receivedAt - sentAt);
+    const sample = { rttMs, offsetMs: serverTime - (sentAt + rttMs / 2) };
+    this.samples = [...this.samples, sample].slice(-this.maxSamples);
+    return sample;
+  }
+
+  /**
+   * Rough offset from a one-way server timestamp, used until the first round
+   * trip completes. Ignores latency, so it errs early by about half a ping.
+   */
+  seed(serverTime: number, receivedAt: number): void {
+    this.seededOffset = serverTime - receivedAt;
+  }
+
+  hasSamples(): boolean {
+    return this.samples.length > 0;
+  }
+
+  /**
+   * Offset from the fastest recent round trip - the one queueing delay
+   * distorted least. Falls back to the seed, then to 0.
+   */
+  getOffset(): number {
+    if (this.samples.length === 0) return this.seededOffset ?? 0;
+    return this.samples.reduce((best, sample) => sample.rttMs < best.rttMs ? sample : best).offsetMs;
+  }
+
+  /**
+   * Latest round trip time, null before the first pong
+   */
+  getRtt(): number | null {
+    return this.samples.length > 0 ? this.samples[this.samples.length - 1].rttMs : null;
+  }
+
+  toServerTime(localTime: number): number {
+    return localTime + this.getOffset();
+  }
+
+  reset(): void {
+    this.samples = [];
+    this.seededOffset = null;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Crash Point Distribution Engine
+ * Samples crash points from a tiered distribution table (CRASH_DISTRIBUTION
+ * by default), validates tables, and reports their theoretical economics.
+ */
+
+import { CRASH_DISTRIBUTION } from '../components/Chart/CrashChart.constants';
+import type { RandomSource } from './prng';
+
+export interface DistributionRange {
+  readonly chance: number;   // Share of the band, 0-1
+  readonly min: number;
+  readonly max: number;
+}
+
+export interface DistributionBand {
+  readonly chance: number;   // Share of all rounds, 0-1
+  readonly ranges: readonly DistributionRange[];
+}
+
+export type CrashDistributionTable = Readonly<Record<string, DistributionBand>>;
+
+export interface DistributionStats {
+  expectedCrashPoint: number;
+  probabilityBelow1x: number;
+  rtpAt1x: number;           // Return to player cashing out at exactly 1x
+  bestTarget: number;        // Cash-out target with the highest return
+  maxRtp: number;
+  houseEdge: number;         // 1 - maxRtp: the edge against the best fixed target
+}
+
+const CHANCE_EPSILON = 1e-9;
+
+/**
+ * Built-in presets. `default` is the table from CrashChart.constants.
+ */
+export const DISTRIBUTION_PRESETS: Record<string, CrashDistributionTable> = {
+  default: CRASH_DISTRIBUTION,
+  // The hardcoded 30/40/20/10 split the chart used before the table was wired in
+  classic: {
+    BELOW_1X: { chance: 0.3, ranges: [{ chance: 1, min: 0.5, max: 0.99 }] },
+    ABOVE_1X: {
+      chance: 0.7,
+      ranges: [
+        { chance: 4 / 7, min: 1.01, max: 2.5 },
+        { chance: 2 / 7, min: 2.5, max: 7.5 },
+        { chance: 1 / 7, min: 7.5, max: 22.5 },
+      ],
+    },
+  },
+  // Mostly sub-1x rounds, for exercising loss handling
+  testing: {
+    BELOW_1X: { chance: 0.8, ranges: CRASH_DISTRIBUTION.BELOW_1X.ranges },
+    ABOVE_1X: { chance: 0.2, ranges: CRASH_DISTRIBUTION.ABOVE_1X.ranges },
+  },
+};
+
+export const DEFAULT_DISTRIBUTION = 'default';
+
+const sumChances = (items: readonly { chance: number }[]) =>
+  items.reduce((total, item) => total + item.chance, 0);
+
+/**
+ * List every problem with a table. An empty list means it is usable.
+ */
+export const validateDistribution = (table: CrashDistributionTable): string[] => {
+  const errors: string[] = [];
+  const bands = Object.entries(table);
+
+  if (bands.length === 0) {
+    return ['Distribution has no bands'];
+  }
+
+  const bandTotal = sumChances(bands.map(([, band]) => band));
+  if (Math.abs(bandTotal - 1) > CHANCE_EPSILON) {
+    errors.push(`Band chances sum to ${bandTotal}, expected 1`);
+  }
+
+  const allRanges: (DistributionRange & { band: string })[] = [];
+  for (const [name, band] of bands) {
+    if (band.chance < 0) errors.push(`${name}: chance cannot be negative`);
+    if (band.ranges.length === 0) {
+      errors.push(`${name}: band has no ranges`);
+      continue;
+    }
+
+    const rangeTotal = sumChances(band.ranges);
+    if (Math.abs(rangeTotal - 1) > CHANCE_EPSILON) {
+      errors.push(`${name}: range chances sum to ${rangeTotal}, expected 1`);
+    }
+
+    for (const [i, range] of band.ranges.entries()) {
+      if (range.chance < 0) errors.push(`${name}[${i}]: chance cannot be negative`);
+      if (range.min <= 0) errors.push(`${name}[${i}]: min must be above 0`);
+      if (range.max <= range.min) errors.push(`${name}[${i}]: max must be greater than min`);
+      allRanges.push({ ...range, band: name });
+    }
+  }
+
+  // Ranges may touch but not overlap, otherwise the stats double count
+  const sorted = [...allRanges].sort((a, b) => a.min - b.min);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].min < sorted[i - 1].max) {
+      errors.push(`${sorted[i - 1].band} ${sorted[i - 1].min}-${sorted[i - 1].max} overlaps ${sorted[i].band} ${sorted[i].min}-${sorted[i].max}`);
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Throw if a table cannot be used
+ */
+export const assertValidDistribution = (table: CrashDistributionTable): void => {
+  const errors = validateDistribution(table);
+  if (errors.length > 0) {
+    throw new Error(`Invalid crash distribution: ${errors.join('; ')}`);
+  }
+};
+
+/**
+ * Add or replace a preset so it can be selected at runtime
+ */
+export const registerDistributionPreset = (name: string, table: CrashDistributionTable): void => {
+  assertValidDistribution(table);
+  DISTRIBUTION_PRESETS[name] = table;
+};
+
+/**
+ * Resolve a preset by name
+ */
+export const getDistributionPreset = (name: string): CrashDistributionTable => {
+  const table = DISTRIBUTION_PRESETS[name];
+  if (!table) {
+    throw new Error(`Unknown crash distribution preset: ${name}`);
+  }
+  return table;
+};
+
+// Walk weighted items, falling back to the last one for rounding leftovers
+const pickWeighted = <T extends { chance: number }>(items: readonly T[], r: number): T => {
+  let cumulative = 0;
+  for (const item of items) {
+    cumulative += item.chance;
+    if (r < cumulative) return item;
+  }
+  return items[items.length - 1];
+};
+
+/**
+ * Sample a crash point: band, then range within the band, then a uniform
+ * value within the range. Always consumes exactly three random values.
+ */
+export const sampleCrashPoint = (table: CrashDistributionTable, random: RandomSource): number => {
+  const band = pickWeighted(Object.values(table), random());
+  const range = pickWeighted(band.ranges, random());
+  return range.min + random() * (range.max - range.min);
+};
+
+// Flatten bands into absolute-probability ranges
+const flattenRanges = (table: CrashDistributionTable) =>
+  Object.values(table).flatMap(band =>
+    band.ranges.map(range => ({ probability: band.chance * range.chance, min: range.min, max: range.max }))
+  );
+
+/**
+ * Probability that a round reaches at least `target`
+ */
+export const survivalProbability = (table: CrashDistributionTable, target: number): number =>
+  flattenRanges(table).reduce((total, { probability, min, max }) => {
+    if (target <= min) return total + probability;
+    if (target >= max) return total;
+    return total + probability * (max - target) / (max - min);
+  }, 0);
+
+/**
+ * Return to player for a bet cashed out at `target` (paid only if the round
+ * reaches it)
+ */
+export const rtpAtTarget = (table: CrashDistributionTable, target: number): number =>
+  target * survivalProbability(table, target);
+
+/**
+ * Theoretical economics of a table
+ */
+export const getDistributionStats = (table: CrashDistributionTable): DistributionStats => {
+  const ranges = flattenRanges(table);
+
+  const expectedCrashPoint = ranges.reduce((total, { probability, min, max }) => total + probability * (min + max) / 2, 0);
+  const probabilityBelow1x = 1 - survivalProbability(table, 1);
+
+  // RTP is quadratic inside each uniform range, so the best target is a
+  // range endpoint or the parabola's vertex
+  const candidates = new Set<number>([1]);
+  for (const { probability, min, max } of ranges) {
+    candidates.add(min);
+    candidates.add(max);
+    const tail = survivalProbability(table, max);
+    if (probability > 0) {
+      const vertex = (tail * (max - min) + probability * max) / (2 * probability);
+      if (vertex > min && vertex < max) candidates.add(vertex);
+    }
+  }
+
+  let bestTarget = 1;
+  let maxRtp = rtpAtTarget(table, 1);
+  for (const target of candidates) {
+    if (target < 1) continue;
+    const rtp = rtpAtTarget(table, target);
+    if (rtp > maxRtp) {
+      maxRtp = rtp;
+      bestTarget = target;
+    }
+  }
+
+  return {
+    expectedCrashPoint,
+    probabilityBelow1x,
+    rtpAt1x: rtpAtTarget(table, 1),
+    bestTarget,
+    maxRtp,
+    houseEdge: 1 - maxRtp,
+  };
+};
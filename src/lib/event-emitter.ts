@@ -0,0 +1,45 @@
+/**
+ * Typed Event Emitter
+ * Minimal, framework-free pub/sub keyed by an event map
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Subscribe to an event. Returns an unsubscribe function.
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as EventListener<never>);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Remove a previously registered listener
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(event)?.delete(listener as EventListener<never>);
+  }
+
+  /**
+   * Drop every listener, e.g. when disposing the emitter
+   */
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set] as EventListener<Events[K]>[]) {
+      listener(payload);
+    }
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Provably Fair Crash Points
+ * Commit / reveal scheme: the server seed is hashed and published before a
+ * round, the outcome is derived from HMAC-SHA256(serverSeed, clientSeed:nonce),
+ * and the seed is revealed afterwards so anyone can recompute the result.
+ */
+
+import {
+  assertValidDistribution,
+  DEFAULT_DISTRIBUTION,
+  getDistributionPreset,
+  sampleCrashPoint,
+} from './crash-distribution';
+import { DEFAULT_TICK_PARAMS, generatePricePath, type PricePath, type TickParams } from './price-path';
+import type { RandomSource } from './prng';
+import { hmacSha256Hex, sha256Hex, toHex } from './sha256';
+
+export type { RandomSource } from './prng';
+
+export interface SeedCommitment {
+  serverSeedHash: string;
+  clientSeed: string;
+  nonce: number;
+  distribution: string;    // Crash distribution preset the round is drawn from
+}
+
+export interface RevealedRound extends SeedCommitment {
+  serverSeed: string;
+  crashPoint: number;
+  path: number[];          // Multiplier after every tick, ending at the crash point
+  revealedAt: number;
+}
+
+export interface RoundVerification {
+  hashMatches: boolean | null;   // null when no hash was supplied
+  crashPoint: number;
+  pathSeed: string;
+  path: number[];
+  pathComplete: boolean;
+  playedRound: RevealedRound | null;
+  crashPointMatches: boolean | null;
+  pathMatches: boolean | null;
+  firstMismatchTick: number | null;
+}
+
+const SERVER_SEED_BYTES = 32;
+const CLIENT_SEED_BYTES = 8;
+const HEX_PER_FLOAT = 8;                       // 32 bits of entropy per float
+const FLOATS_PER_HMAC = 64 / HEX_PER_FLOAT;    // 8 floats per 256-bit digest
+const MAX_HISTORY = 50;
+const PATH_STREAM = 'path';
+const MATCH_EPSILON = 1e-9;
+
+const randomHex = (bytes: number): string => {
+  const buffer = new Uint8Array(bytes);
+  crypto.getRandomValues(buffer);
+  return toHex(buffer);
+};
+
+/**
+ * Generate a fresh secret server seed
+ */
+export const generateServerSeed = (): string => randomHex(SERVER_SEED_BYTES);
+
+/**
+ * Generate a default client seed for players who have not picked their own
+ */
+export const generateClientSeed = (): string => randomHex(CLIENT_SEED_BYTES);
+
+/**
+ * Public commitment published before the round starts
+ */
+export const hashServerSeed = (serverSeed: string): string => sha256Hex(serverSeed);
+
+/**
+ * Deterministic stream of floats in [0, 1) for one round.
+ * Each HMAC digest of `clientSeed:nonce:cursor` yields 8 floats; the cursor
+ * advances when a digest is exhausted.
+ */
+export const createFairRandom = (serverSeed: string, clientSeed: string, nonce: number): RandomSource => {
+  let cursor = 0;
+  let digest = '';
+  let index = FLOATS_PER_HMAC;
+
+  return () => {
+    if (index >= FLOATS_PER_HMAC) {
+      digest = hmacSha256Hex(serverSeed, `${clientSeed}:${nonce}:${cursor}`);
+      cursor++;
+      index = 0;
+    }
+    const chunk = digest.slice(index * HEX_PER_FLOAT, (index + 1) * HEX_PER_FLOAT);
+    index++;
+    return Number.parseInt(chunk, 16) / 0x100000000;
+  };
+};
+
+/**
+ * Recompute a round's crash point from its revealed seeds
+ */
+export const deriveCrashPoint = (
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  distribution: string = DEFAULT_DISTRIBUTION
+): number => sampleCrashPoint(getDistributionPreset(distribution), createFairRandom(serverSeed, clientSeed, nonce));
+
+/**
+ * Seed for a round's tick-by-tick price path, taken from its own HMAC
+ * stream so the path never shifts the crash point
+ */
+export const derivePathSeed = (serverSeed: string, clientSeed: string, nonce: number): string =>
+  hmacSha256Hex(serverSeed, `${clientSeed}:${nonce}:${PATH_STREAM}`);
+
+/**
+ * Recompute a round's crash point and full price path from its revealed seeds
+ */
+export const replayRound = (
+  serverSeed: string,
+  clientSeed: string,
+  nonce: number,
+  distribution: string = DEFAULT_DISTRIBUTION,
+  params: TickParams = DEFAULT_TICK_PARAMS
+): PricePath & { crashPoint: number; pathSeed: string } => {
+  const crashPoint = deriveCrashPoint(serverSeed, clientSeed, nonce, distribution);
+  const pathSeed = derivePathSeed(serverSeed, clientSeed, nonce);
+  return { crashPoint, pathSeed, ...generatePricePath(pathSeed, crashPoint, params) };
+};
+
+/**
+ * Check that a revealed server seed matches its published hash
+ */
+export const verifyServerSeed = (serverSeed: string, serverSeedHash: string): boolean =>
+  hashServerSeed(serverSeed) === serverSeedHash.trim().toLowerCase();
+
+/**
+ * Recompute a round from its seeds and compare it with the round as played.
+ * `playedRound` is looked up by the caller (usually by nonce or hash).
+ */
+export const verifyRound = (
+  input: { serverSeed: string; clientSeed: string; nonce: number; serverSeedHash?: string; distribution?: string },
+  playedRound: RevealedRound | null = null
+): RoundVerification => {
+  const { serverSeed, clientSeed, nonce } = input;
+  const expectedHash = input.serverSeedHash || playedRound?.serverSeedHash;
+  const distribution = input.distribution || playedRound?.distribution || DEFAULT_DISTRIBUTION;
+
+  const replay = replayRound(serverSeed, clientSeed, nonce, distribution);
+
+  let firstMismatchTick: number | null = null;
+  if (playedRound) {
+    const length = Math.max(replay.ticks.length, playedRound.path.length);
+    for (let i = 0; i < length; i++) {
+      const expected = replay.ticks[i];
+      const actual = playedRound.path[i];
+      if (expected === undefined || actual === undefined || Math.abs(expected - actual) > MATCH_EPSILON) {
+        firstMismatchTick = i;
+        break;
+      }
+    }
+  }
+
+  return {
+    hashMatches: expectedHash ? verifyServerSeed(serverSeed, expectedHash) : null,
+    crashPoint: replay.crashPoint,
+    pathSeed: replay.pathSeed,
+    path: replay.ticks,
+    pathComplete: replay.complete,
+    playedRound,
+    crashPointMatches: playedRound ? Math.abs(playedRound.crashPoint - replay.crashPoint) < MATCH_EPSILON : null,
+    pathMatches: playedRound ? firstMismatchTick === null : null,
+    firstMismatchTick,
+  };
+};
+
+/**
+ * Seed manager for the round lifecycle.
+ * Commits to a new server seed before every round, locks the seeds while the
+ * round runs, and reveals them once it ends.
+ */
+export class ProvablyFair {
+  private serverSeed: string;
+  private serverSeedHash: string;
+  private clientSeed: string;
+  private nonce = 0;
+  private distribution = DEFAULT_DISTRIBUTION;
+  private activeRound: RevealedRound | null = null;
+  private history: RevealedRound[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(clientSeed: string = generateClientSeed()) {
+    this.serverSeed = generateServerSeed();
+    this.serverSeedHash = hashServerSeed(this.serverSeed);
+    this.clientSeed = clientSeed;
+  }
+
+  /**
+   * Commitment for the next (or currently running) round
+   */
+  getCommitment(): SeedCommitment {
+    if (this.activeRound) {
+      const { serverSeedHash, clientSeed, nonce, distribution } = this.activeRound;
+      return { serverSeedHash, clientSeed, nonce, distribution };
+    }
+    return {
+      serverSeedHash: this.serverSeedHash,
+      clientSeed: this.clientSeed,
+      nonce: this.nonce,
+      distribution: this.distribution,
+    };
+  }
+
+  /**
+   * Client seed that will be used from the next round on
+   */
+  getClientSeed(): string {
+    return this.clientSeed;
+  }
+
+  /**
+   * Change the client seed. Takes effect from the next round; a running
+   * round keeps the seeds it was started with.
+   */
+  setClientSeed(clientSeed: string): void {
+    const trimmed = clientSeed.trim();
+    if (!trimmed) {
+      throw new Error('Client seed cannot be empty');
+    }
+    this.clientSeed = trimmed;
+    this.notify();
+  }
+
+  /**
+   * Crash distribution preset that will be used from the next round on
+   */
+  getDistribution(): string {
+    return this.distribution;
+  }
+
+  /**
+   * Swap the crash distribution preset. Like the client seed, it is part of
+   * the commitment and takes effect from the next round.
+   */
+  setDistribution(distribution: string): void {
+    assertValidDistribution(getDistributionPreset(distribution));
+    this.distribution = distribution;
+    this.notify();
+  }
+
+  /**
+   * Lock the committed seeds and derive the crash point and price path
+   * seed for a new round
+   */
+  beginRound(): { commitment: SeedCommitment; crashPoint: number; pathSeed: string } {
+    if (this.activeRound) {
+      this.revealRound();
+    }
+
+    const crashPoint = deriveCrashPoint(this.serverSeed, this.clientSeed, this.nonce, this.distribution);
+    this.activeRound = {
+      serverSeed: this.serverSeed,
+      serverSeedHash: this.serverSeedHash,
+      clientSeed: this.clientSeed,
+      nonce: this.nonce,
+      distribution: this.distribution,
+      crashPoint,
+      path: [],
+      revealedAt: 0,
+    };
+    this.notify();
+
+    return {
+      commitment: this.getCommitment(),
+      crashPoint,
+      pathSeed: derivePathSeed(this.serverSeed, this.clientSeed, this.nonce),
+    };
+  }
+
+  /**
+   * Reveal the finished round's server seed and commit to the next one.
+   * `path` is the multiplier sequence the round actually played.
+   */
+  revealRound(path: number[] = []): RevealedRound | null {
+    const round = this.activeRound;
+    if (!round) return null;
+
+    const revealed: RevealedRound = { ...round, path, revealedAt: Date.now() };
+    this.history = [revealed, ...this.history].slice(0, MAX_HISTORY);
+    this.activeRound = null;
+
+    this.serverSeed = generateServerSeed();
+    this.serverSeedHash = hashServerSeed(this.serverSeed);
+    this.nonce++;
+    this.notify();
+
+    return revealed;
+  }
+
+  /**
+   * Revealed rounds, newest first
+   */
+  getHistory(): RevealedRound[] {
+    return this.history;
+  }
+
+  /**
+   * Look up a revealed round by its nonce
+   */
+  findRound(nonce: number): RevealedRound | null {
+    return this.history.find((round) => round.nonce === nonce) ?? null;
+  }
+
+  /**
+   * Listen for commitment, client seed and history changes
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Trade Fees
+ * Fee model applied to buys and sells. Buy fees are charged on top of the
+ * stake; sell fees come out of the payout. Each fee is recorded on its
+ * TradeAction, so settlements and PnL figures are net of fees.
+ */
+
+export interface FeeModel {
+  flatPerTrade: number;          // Charged on every buy and sell
+  entryRate: number;             // Share of the stake charged on each buy (0.01 = 1%)
+  profitRate: number;            // Share of a sell's profit charged; losing sells pay none
+  exemptPaper: boolean;          // Paper trades pay no fees
+}
+
+// No fees until an operator configures them
+export const DEFAULT_FEE_MODEL: FeeModel = {
+  flatPerTrade: 0,
+  entryRate: 0,
+  profitRate: 0,
+  exemptPaper: true,
+};
+
+/**
+ * List every problem with a fee model. An empty list means it is usable.
+ */
+export const validateFeeModel = (model: FeeModel): string[] => {
+  const errors: string[] = [];
+  if (!(model.flatPerTrade >= 0)) errors.push('Flat fee cannot be negative');
+  if (!(model.entryRate >= 0 && model.entryRate < 1)) errors.push('Entry fee must be between 0 and 100%');
+  if (!(model.profitRate >= 0 && model.profitRate <= 1)) errors.push('Profit fee must be between 0 and 100%');
+  return errors;
+};
+
+const isExempt = (model: FeeModel, isPaper: boolean) => isPaper && model.exemptPaper;
+
+/**
+ * Fee on buying `amount`, paid on top of it
+ */
+export const getBuyFee = (amount: number, model: FeeModel, isPaper: boolean): number =>
+  isExempt(model, isPaper) ? 0 : model.flatPerTrade + amount * model.entryRate;
+
+/**
+ * Fee on selling `amountSold` of cost basis for a gross `payout`. Never more
+ * than the payout, so a sell cannot cost the player money.
+ */
+export const getSellFee = (amountSold: number, payout: number, model: FeeModel, isPaper: boolean): number => {
+  if (isExempt(model, isPaper)) return 0;
+  const profit = Math.max(0, payout - amountSold);
+  return Math.min(payout, model.flatPerTrade + profit * model.profitRate);
+};
+
+/**
+ * Short summary of the fees a trade pays, or null when it pays none
+ */
+export const describeFeeModel = (model: FeeModel, isPaper: boolean): string | null => {
+  if (isExempt(model, isPaper)) return null;
+  const parts: string[] = [];
+  if (model.flatPerTrade > 0) parts.push(`${model.flatPerTrade} per trade`);
+  if (model.entryRate > 0) parts.push(`${(model.entryRate * 100).toFixed(2)}% on entry`);
+  if (model.profitRate > 0) parts.push(`${(model.profitRate * 100).toFixed(2)}% of profit`);
+  return parts.length > 0 ? parts.join(' + ') : null;
+};
@@ -0,0 +1,309 @@
+/**
+ * Game Engine
+ * Headless round lifecycle: countdown → running → crashed → countdown.
+ * Framework-free so it can drive the React chart, a worker, Node tests or a
+ * server. Consumers subscribe to typed events instead of polling state.
+ */
+
+import type { CandleData, GamePhase, GameState } from '../components/Chart/CrashChart.types';
+import { type EventListener, TypedEventEmitter } from './event-emitter';
+import type { ProvablyFair, RevealedRound, SeedCommitment } from './fairness';
+import { createPricePath, DEFAULT_TICK_PARAMS, type PriceStep, type TickParams } from './price-path';
+
+export interface GameEngineConfig {
+  tickMs: number;
+  ticksPerCandle: number;
+  countdownSeconds: number;
+  crashDisplayMs: number;      // Pause on the crash screen before the countdown
+  preGameDelayMs: number;      // Delay before the very first round
+  initialMultiplier: number;
+  wickLimit: number;           // Max wick extension beyond the candle body
+  maxCandles: number;
+  tickParams: TickParams;      // Price path shape; replays must use the same params
+}
+
+export const DEFAULT_ENGINE_CONFIG: GameEngineConfig = {
+  tickMs: 80,
+  ticksPerCandle: 65,
+  countdownSeconds: 5,
+  crashDisplayMs: 2000,
+  preGameDelayMs: 1000,
+  initialMultiplier: 1.0,
+  wickLimit: 0.015,
+  maxCandles: 50,
+  tickParams: DEFAULT_TICK_PARAMS,
+};
+
+export interface RoundStartEvent {
+  roundNumber: number;
+  commitment: SeedCommitment;
+  crashPoint: number;
+  multiplier: number;
+}
+
+export interface TickEvent {
+  roundNumber: number;
+  tick: number;
+  multiplier: number;
+  candle: CandleData;
+  candleIndex: number;
+}
+
+export interface CandleClosedEvent {
+  roundNumber: number;
+  candle: CandleData;
+  candleIndex: number;
+}
+
+export interface CrashEvent {
+  roundNumber: number;
+  tick: number;
+  crashPoint: number;
+  revealed: RevealedRound | null;
+}
+
+export interface CountdownEvent {
+  nextRoundNumber: number;
+  secondsLeft: number;
+}
+
+export interface GameEngineEvents {
+  roundStart: RoundStartEvent;
+  tick: TickEvent;
+  candleClosed: CandleClosedEvent;
+  crash: CrashEvent;
+  countdown: CountdownEvent;
+}
+
+/**
+ * What the chart and betting state consume: the local engine, or a feed of
+ * rounds run by a server. Remote sources keep the crash point at 0 until
+ * the round crashes.
+ */
+export interface GameSource {
+  readonly config: GameEngineConfig;
+  start(): void;
+  stop(): void;
+  isRunning(): boolean;
+  getState(): GameState;
+  getCandles(): CandleData[];
+  getCommitment(): SeedCommitment | null;   // Current round's, or the next one's once it is known
+  on<K extends keyof GameEngineEvents>(event: K, listener: EventListener<GameEngineEvents[K]>): () => void;
+}
+
+type TimerHandle = ReturnType<typeof setTimeout>;
+
+/**
+ * Timer functions the engine schedules with. Defaults to the global timers;
+ * tests and simulations can inject a manual clock.
+ */
+export interface EngineTimers {
+  setTimeout: (callback: () => void, ms: number) => TimerHandle;
+  clearTimeout: (handle: TimerHandle) => void;
+  setInterval: (callback: () => void, ms: number) => TimerHandle;
+  clearInterval: (handle: TimerHandle) => void;
+}
+
+const defaultTimers: EngineTimers = {
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearInterval: (handle) => clearInterval(handle),
+};
+
+export class GameEngine extends TypedEventEmitter<GameEngineEvents> implements GameSource {
+  readonly config: GameEngineConfig;
+  private fairness: ProvablyFair;
+  private timers: EngineTimers;
+
+  private phase: GamePhase = 'waiting';
+  private multiplier: number;
+  private crashPoint = 0;
+  private countdown = 0;
+  private tickNumber = 0;
+  private roundNumber = 0;
+  private candles: CandleData[] = [];
+  private candleIndex = 0;
+  private path: number[] = [];
+  private nextStep: () => PriceStep = () => ({ price: this.multiplier, crashed: false });
+
+  private tickTimer: TimerHandle | null = null;
+  private countdownTimer: TimerHandle | null = null;
+  private pendingTimer: TimerHandle | null = null;
+  private running = false;
+
+  constructor(fairness: ProvablyFair, config: Partial<GameEngineConfig> = {}, timers: EngineTimers = defaultTimers) {
+    super();
+    this.fairness = fairness;
+    this.config = { ...DEFAULT_ENGINE_CONFIG, ...config };
+    this.timers = timers;
+    this.multiplier = this.config.initialMultiplier;
+  }
+
+  /**
+   * Begin the round loop. The first round starts after `preGameDelayMs`.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.pendingTimer = this.timers.setTimeout(() => {
+      this.pendingTimer = null;
+      this.startRound();
+    }, this.config.preGameDelayMs);
+  }
+
+  /**
+   * Halt all timers. A running round is left unrevealed and resumes from a
+   * fresh round on the next `start()`.
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+    this.phase = 'waiting';
+    this.countdown = 0;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Snapshot of the current round
+   */
+  getState(): GameState {
+    return {
+      phase: this.phase,
+      multiplier: this.multiplier,
+      crashPoint: this.crashPoint,
+      countdown: this.countdown,
+      tickNumber: this.tickNumber,
+      roundNumber: this.roundNumber,
+    };
+  }
+
+  /**
+   * Candles of the current round (most recent `maxCandles`)
+   */
+  getCandles(): CandleData[] {
+    return this.candles;
+  }
+
+  /**
+   * Seeds of the running round, or the commitment for the next one
+   */
+  getCommitment(): SeedCommitment {
+    return this.fairness.getCommitment();
+  }
+
+  private startRound(): void {
+    const { commitment, crashPoint, pathSeed } = this.fairness.beginRound();
+    const initial = this.config.initialMultiplier;
+
+    this.roundNumber++;
+    this.phase = 'running';
+    this.crashPoint = crashPoint;
+    this.multiplier = initial;
+    this.countdown = 0;
+    this.tickNumber = 0;
+    this.path = [];
+    this.nextStep = createPricePath(pathSeed, crashPoint, this.config.tickParams, initial);
+    this.candleIndex = 0;
+    this.candles = [this.createCandle(initial)];
+
+    this.emit('roundStart', { roundNumber: this.roundNumber, commitment, crashPoint, multiplier: initial });
+    this.tickTimer = this.timers.setInterval(() => this.tick(), this.config.tickMs);
+  }
+
+  private tick(): void {
+    if (this.phase !== 'running') return;
+
+    const { price, crashed } = this.nextStep();
+    this.tickNumber++;
+    this.multiplier = price;
+    this.path.push(price);
+
+    if (crashed) {
+      this.crash();
+      return;
+    }
+
+    this.updateCandles(price);
+    this.emit('tick', {
+      roundNumber: this.roundNumber,
+      tick: this.tickNumber,
+      multiplier: price,
+      candle: this.candles[this.candles.length - 1],
+      candleIndex: this.candleIndex,
+    });
+  }
+
+  private updateCandles(price: number): void {
+    const { wickLimit, ticksPerCandle, maxCandles } = this.config;
+    const last = this.candles[this.candles.length - 1];
+    const tickCount = last.tickCount + 1;
+
+    // Limit wick length - max extension from body
+    const bodyHigh = Math.max(last.open, price);
+    const bodyLow = Math.min(last.open, price);
+    const high = Math.min(Math.max(last.high, price), bodyHigh + wickLimit);
+    const low = Math.max(Math.min(last.low, price), bodyLow - wickLimit);
+
+    const updated: CandleData = { ...last, high, low, close: price, tickCount };
+
+    if (tickCount >= ticksPerCandle) {
+      this.candles = [...this.candles.slice(0, -1), updated, this.createCandle(price)].slice(-maxCandles);
+      this.emit('candleClosed', { roundNumber: this.roundNumber, candle: updated, candleIndex: this.candleIndex });
+      this.candleIndex++;
+      return;
+    }
+
+    this.candles = [...this.candles.slice(0, -1), updated];
+  }
+
+  private crash(): void {
+    this.clearTimers();
+    this.phase = 'crashed';
+
+    const revealed = this.fairness.revealRound(this.path);
+    this.emit('crash', {
+      roundNumber: this.roundNumber,
+      tick: this.tickNumber,
+      crashPoint: this.crashPoint,
+      revealed,
+    });
+
+    this.pendingTimer = this.timers.setTimeout(() => {
+      this.pendingTimer = null;
+      this.startCountdown();
+    }, this.config.crashDisplayMs);
+  }
+
+  private startCountdown(): void {
+    this.countdown = this.config.countdownSeconds;
+    this.emit('countdown', { nextRoundNumber: this.roundNumber + 1, secondsLeft: this.countdown });
+
+    this.countdownTimer = this.timers.setInterval(() => {
+      this.countdown--;
+      if (this.countdown <= 0) {
+        this.timers.clearInterval(this.countdownTimer as TimerHandle);
+        this.countdownTimer = null;
+        this.startRound();
+        return;
+      }
+      this.emit('countdown', { nextRoundNumber: this.roundNumber + 1, secondsLeft: this.countdown });
+    }, 1000);
+  }
+
+  private createCandle(price: number): CandleData {
+    return { open: price, high: price, low: price, close: price, time: Date.now(), tickCount: 0 };
+  }
+
+  private clearTimers(): void {
+    if (this.tickTimer !== null) this.timers.clearInterval(this.tickTimer);
+    if (this.countdownTimer !== null) this.timers.clearInterval(this.countdownTimer);
+    if (this.pendingTimer !== null) this.timers.clearTimeout(this.pendingTimer);
+    this.tickTimer = null;
+    this.countdownTimer = null;
+    this.pendingTimer = null;
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * Bet-Weighted House Edge
+ * Implements Docs/GAMBLING_MECHANICS_ALGORITHM.md: the crash point for a
+ * round depends on total bets, player count and house bankroll, payouts are
+ * capped against the bankroll, and the loss rate is raised until the round's
+ * theoretical edge meets the required minimum.
+ *
+ * The doc's `previousRounds` history is deliberately not an input: a crash
+ * point that reacts to recent results makes rounds dependent on each other,
+ * which the fairness scheme rules out, and the edge is already guaranteed
+ * per round.
+ */
+
+import {
+  getDistributionStats,
+  sampleCrashPoint,
+  type CrashDistributionTable,
+  type DistributionRange,
+} from './crash-distribution';
+import type { RandomSource } from './prng';
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export interface HouseEdgeConfig {
+  minimumHouseEdge: number;        // 5% minimum
+  baseHouseEdge: number;           // 5% for low-risk rounds
+  mediumRiskEdge: number;          // 7% for medium-risk rounds
+  highRiskEdge: number;            // 15% for high-bet rounds
+  maxPayoutRatio: number;          // Max share of house bankroll a round may pay out
+  bettingThresholds: {
+    low: number;                   // < 100 SOL total bets
+    medium: number;                // 100-500 SOL total bets
+    high: number;                  // > 500 SOL total bets
+  };
+  riskRatioThresholds: {
+    medium: number;                // Bets at 1% of bankroll or more
+    high: number;                  // Bets at 5% of bankroll or more
+  };
+  concentration: {
+    maxPlayers: number;            // Rounds with at most 2 players...
+    minAverageBet: number;         // ...averaging 10 SOL or more are one risk level higher
+  };
+  lossRates: Record<RiskLevel, number>;
+  highBetMaxMultiplier: number;    // Max 1.3x for high-bet rounds
+  highBetLossRate: number;         // 98% loss rate for high bets
+  lossRanges: readonly DistributionRange[];
+  profitRanges: readonly DistributionRange[];
+}
+
+export const HOUSE_EDGE_CONFIG: HouseEdgeConfig = {
+  minimumHouseEdge: 0.05,
+  baseHouseEdge: 0.05,
+  mediumRiskEdge: 0.07,
+  highRiskEdge: 0.15,
+  maxPayoutRatio: 0.8,
+  bettingThresholds: { low: 100, medium: 500, high: 500 },
+  riskRatioThresholds: { medium: 0.01, high: 0.05 },
+  concentration: { maxPlayers: 2, minAverageBet: 10 },
+  lossRates: { LOW: 0.6, MEDIUM: 0.75, HIGH: 0.95 },
+  highBetMaxMultiplier: 1.3,
+  highBetLossRate: 0.98,
+  lossRanges: [
+    { chance: 0.1, min: 0.01, max: 0.2 },    // Big loss
+    { chance: 0.2, min: 0.2, max: 0.5 },     // Medium loss
+    { chance: 0.7, min: 0.5, max: 0.99 },    // Small loss
+  ],
+  profitRanges: [
+    { chance: 0.4, min: 1.01, max: 2.0 },    // Small profit
+    { chance: 0.3, min: 2.0, max: 5.0 },     // Medium profit
+    { chance: 0.2, min: 5.0, max: 10.0 },    // Big profit
+    { chance: 0.1, min: 10.0, max: 25.0 },   // Huge payout
+  ],
+};
+
+export interface GameRound {
+  totalBetAmount: number;          // Sum of all active bets
+  averageBetSize: number;          // Average bet per player
+  playerCount: number;             // Number of active players
+  houseBankroll: number;           // Available house funds
+}
+
+export interface RoundEconomics {
+  riskLevel: RiskLevel;
+  requiredHouseEdge: number;
+  maxSafeCrashPoint: number;
+  lossRate: number;
+  distribution: CrashDistributionTable;
+  houseEdge: number;               // Theoretical edge of `distribution`
+}
+
+export interface CrashPointResult {
+  crashPoint: number;              // Final crash multiplier
+  houseEdge: number;               // Theoretical house advantage for the round
+  maxPayout: number;               // Maximum possible payout
+  riskLevel: RiskLevel;            // Risk assessment
+  lossRate: number;                // Probability the round crashes below 1x
+}
+
+const ESCALATED_RISK: Record<RiskLevel, RiskLevel> = { LOW: 'MEDIUM', MEDIUM: 'HIGH', HIGH: 'HIGH' };
+
+/**
+ * Risk from the bet-to-bankroll ratio, escalated by absolute bet volume and
+ * by a pot concentrated in a few large bets, whose cash outs all land at once
+ * instead of spreading over many targets
+ */
+export const assessRiskLevel = (round: GameRound, config: HouseEdgeConfig = HOUSE_EDGE_CONFIG): RiskLevel => {
+  const { totalBetAmount, houseBankroll, playerCount, averageBetSize } = round;
+  if (houseBankroll <= 0 || totalBetAmount > config.bettingThresholds.high) return 'HIGH';
+
+  const riskRatio = totalBetAmount / houseBankroll;
+  let riskLevel: RiskLevel = 'LOW';
+  if (riskRatio >= config.riskRatioThresholds.high) riskLevel = 'HIGH';
+  else if (riskRatio >= config.riskRatioThresholds.medium || totalBetAmount >= config.bettingThresholds.low) riskLevel = 'MEDIUM';
+
+  const concentrated = playerCount > 0
+    && playerCount <= config.concentration.maxPlayers
+    && averageBetSize >= config.concentration.minAverageBet;
+  return concentrated ? ESCALATED_RISK[riskLevel] : riskLevel;
+};
+
+/**
+ * Edge the round must carry, never below the configured minimum
+ */
+export const calculateRequiredHouseEdge = (riskLevel: RiskLevel, config: HouseEdgeConfig = HOUSE_EDGE_CONFIG): number => {
+  const edges: Record<RiskLevel, number> = {
+    LOW: config.baseHouseEdge,
+    MEDIUM: config.mediumRiskEdge,
+    HIGH: config.highRiskEdge,
+  };
+  return Math.max(config.minimumHouseEdge, edges[riskLevel]);
+};
+
+/**
+ * Highest crash point the house can pay without risking more than
+ * `maxPayoutRatio` of its bankroll
+ */
+export const calculateMaxSafeCrashPoint = (round: GameRound, config: HouseEdgeConfig = HOUSE_EDGE_CONFIG): number => {
+  const { totalBetAmount, houseBankroll } = round;
+  let cap = Number.POSITIVE_INFINITY;
+
+  if (totalBetAmount > 0) {
+    const maxRisk = Math.max(0, houseBankroll) * config.maxPayoutRatio;
+    cap = maxRisk / totalBetAmount + 1;
+  }
+  if (totalBetAmount > config.bettingThresholds.high) {
+    cap = Math.min(cap, config.highBetMaxMultiplier);
+  }
+  return cap;
+};
+
+// Truncate ranges at the cap and renormalise their chances
+const capRanges = (ranges: readonly DistributionRange[], cap: number): DistributionRange[] => {
+  const capped = ranges
+    .filter(range => range.min < cap)
+    .map(range => ({ ...range, max: Math.min(range.max, cap) }));
+  const total = capped.reduce((sum, range) => sum + range.chance, 0);
+  return capped.map(range => ({ ...range, chance: range.chance / total }));
+};
+
+/**
+ * Build the round's crash distribution. The loss rate starts at the risk
+ * level's rate and is raised, if needed, so the best fixed cash-out target
+ * still leaves the house its required edge:
+ *   maxRtp = (1 - lossRate) * M  →  lossRate ≥ 1 - (1 - edge) / M
+ * where M is the best target's return within the profit band alone.
+ */
+export const calculateRoundEconomics = (round: GameRound, config: HouseEdgeConfig = HOUSE_EDGE_CONFIG): RoundEconomics => {
+  const riskLevel = assessRiskLevel(round, config);
+  const requiredHouseEdge = calculateRequiredHouseEdge(riskLevel, config);
+  const maxSafeCrashPoint = calculateMaxSafeCrashPoint(round, config);
+  const profitRanges = capRanges(config.profitRanges, maxSafeCrashPoint);
+
+  const baseLossRate = round.totalBetAmount > config.bettingThresholds.high
+    ? config.highBetLossRate
+    : config.lossRates[riskLevel];
+
+  // No payable profit range: every round is a loss
+  if (profitRanges.length === 0) {
+    const distribution = { BELOW_1X: { chance: 1, ranges: config.lossRanges } };
+    return { riskLevel, requiredHouseEdge, maxSafeCrashPoint, lossRate: 1, distribution, houseEdge: 1 };
+  }
+
+  const profitOnly = getDistributionStats({ ABOVE_1X: { chance: 1, ranges: profitRanges } });
+  const edgeLossRate = 1 - (1 - requiredHouseEdge) / profitOnly.maxRtp;
+  const lossRate = Math.min(1, Math.max(baseLossRate, edgeLossRate));
+
+  const distribution: CrashDistributionTable = {
+    BELOW_1X: { chance: lossRate, ranges: config.lossRanges },
+    ABOVE_1X: { chance: 1 - lossRate, ranges: profitRanges },
+  };
+
+  return {
+    riskLevel,
+    requiredHouseEdge,
+    maxSafeCrashPoint,
+    lossRate,
+    distribution,
+    houseEdge: getDistributionStats(distribution).houseEdge,
+  };
+};
+
+/**
+ * Generate a bet-weighted crash point. Pass a fairness random source to keep
+ * the round verifiable.
+ */
+export const generateAdvancedCrashPoint = (
+  round: GameRound,
+  random: RandomSource = Math.random,
+  config: HouseEdgeConfig = HOUSE_EDGE_CONFIG
+): CrashPointResult => {
+  const economics = calculateRoundEconomics(round, config);
+  const crashPoint = sampleCrashPoint(economics.distribution, random);
+
+  return {
+    crashPoint,
+    houseEdge: economics.houseEdge,
+    maxPayout: crashPoint >= 1 ? round.totalBetAmount * crashPoint : 0,
+    riskLevel: economics.riskLevel,
+    lossRate: economics.lossRate,
+  };
+};
+
+// ===== MONTE-CARLO HARNESS =====
+
+export interface SimulatedBet {
+  amount: number;
+  cashOutTarget: number;           // Player sells here if the round reaches it
+}
+
+export interface HouseEdgeSimulationOptions {
+  rounds: number;
+  random: RandomSource;
+  initialBankroll: number;
+  config?: HouseEdgeConfig;
+  createBets: (random: RandomSource, roundIndex: number) => SimulatedBet[];
+}
+
+export interface HouseEdgeSimulationResult {
+  rounds: number;
+  totalWagered: number;
+  totalPaidOut: number;
+  houseProfit: number;
+  realizedHouseEdge: number;
+  standardError: number;           // Of the per-unit-wagered house return
+  minimumHouseEdge: number;
+  meetsMinimumEdge: boolean;       // Realized edge ≥ minimum with 95% confidence
+  finalBankroll: number;
+  minBankroll: number;
+  roundsByRisk: Record<RiskLevel, number>;
+}
+
+/**
+ * Default bet mix: 1-20 players, 0.01-5 SOL each, targets 1.1x-10x
+ */
+export const createRandomBets = (random: RandomSource): SimulatedBet[] => {
+  const targets = [1.1, 1.5, 2, 3, 5, 10];
+  const players = 1 + Math.floor(random() * 20);
+  const bets: SimulatedBet[] = [];
+  for (let i = 0; i < players; i++) {
+    bets.push({
+      amount: 0.01 + random() * 4.99,
+      cashOutTarget: targets[Math.floor(random() * targets.length)],
+    });
+  }
+  return bets;
+};
+
+/**
+ * Play N rounds against the bet-weighted generator and measure the house
+ * edge actually realised, tracking the bankroll as it moves
+ */
+export const runHouseEdgeSimulation = ({
+  rounds,
+  random,
+  initialBankroll,
+  config = HOUSE_EDGE_CONFIG,
+  createBets,
+}: HouseEdgeSimulationOptions): HouseEdgeSimulationResult => {
+  let bankroll = initialBankroll;
+  let minBankroll = initialBankroll;
+  let totalWagered = 0;
+  let totalPaidOut = 0;
+  const roundsByRisk: Record<RiskLevel, number> = { LOW: 0, MEDIUM: 0, HIGH: 0 };
+
+  // Per-round house return per unit wagered, weighted by wager, for the error estimate
+  let weightedSum = 0;
+  let weightedSquares = 0;
+  let sumWeights = 0;
+  let sumSquaredWeights = 0;
+
+  for (let i = 0; i < rounds; i++) {
+    const bets = createBets(random, i);
+    const totalBetAmount = bets.reduce((sum, bet) => sum + bet.amount, 0);
+    const round: GameRound = {
+      totalBetAmount,
+      averageBetSize: bets.length > 0 ? totalBetAmount / bets.length : 0,
+      playerCount: bets.length,
+      houseBankroll: bankroll,
+    };
+
+    const result = generateAdvancedCrashPoint(round, random, config);
+    roundsByRisk[result.riskLevel]++;
+
+    const paidOut = bets.reduce(
+      (sum, bet) => sum + (result.crashPoint >= bet.cashOutTarget ? bet.amount * bet.cashOutTarget : 0),
+      0
+    );
+
+    totalWagered += totalBetAmount;
+    totalPaidOut += paidOut;
+    bankroll += totalBetAmount - paidOut;
+    minBankroll = Math.min(minBankroll, bankroll);
+
+    if (totalBetAmount > 0) {
+      const roundReturn = (totalBetAmount - paidOut) / totalBetAmount;
+      weightedSum += totalBetAmount * roundReturn;
+      weightedSquares += totalBetAmount * roundReturn * roundReturn;
+      sumWeights += totalBetAmount;
+      sumSquaredWeights += totalBetAmount * totalBetAmount;
+    }
+  }
+
+  const houseProfit = totalWagered - totalPaidOut;
+  const realizedHouseEdge = totalWagered > 0 ? houseProfit / totalWagered : 0;
+  const mean = sumWeights > 0 ? weightedSum / sumWeights : 0;
+  const variance = sumWeights > 0 ? Math.max(0, weightedSquares / sumWeights - mean * mean) : 0;
+  const standardError = sumWeights > 0 ? Math.sqrt(variance * sumSquaredWeights) / sumWeights : 0;
+
+  return {
+    rounds,
+    totalWagered,
+    totalPaidOut,
+    houseProfit,
+    realizedHouseEdge,
+    standardError,
+    minimumHouseEdge: config.minimumHouseEdge,
+    meetsMinimumEdge: realizedHouseEdge - 1.96 * standardError >= config.minimumHouseEdge,
+    finalBankroll: bankroll,
+    minBankroll,
+    roundsByRisk,
+  };
+};
@@ -0,0 +1,79 @@
+/**
+ * Ledger Export
+ * Serializes settled rounds to JSON (one object per round) or CSV (one row
+ * per trade, with its round's columns repeated).
+ */
+
+import type { RoundSettlement } from '../context/BettingContext.types';
+
+const CSV_COLUMNS = [
+  'round_id',
+  'round_number',
+  'nonce',
+  'crash_point',
+  'settled_at',
+  'mode',
+  'asset',
+  'outcome',
+  'round_realized_pnl',
+  'round_fees',
+  'trade_id',
+  'trade_type',
+  'trade_reason',
+  'trade_multiplier',
+  'trade_amount',
+  'trade_fee',
+  'trade_timestamp',
+] as const;
+
+// Quote fields that would break the row
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const settlementsToCsv = (settlements: readonly RoundSettlement[]): string => {
+  const rows: string[] = [CSV_COLUMNS.join(',')];
+  for (const settlement of settlements) {
+    const round = [
+      settlement.id,
+      settlement.roundNumber,
+      settlement.nonce,
+      settlement.crashPoint,
+      new Date(settlement.settledAt).toISOString(),
+      settlement.mode,
+      settlement.asset,
+      settlement.outcome,
+      settlement.realizedPnL,
+      settlement.fees,
+    ];
+    for (const trade of settlement.trades) {
+      rows.push([
+        ...round,
+        trade.id,
+        trade.type,
+        trade.reason,
+        trade.multiplier,
+        trade.amount,
+        trade.fee ?? 0,
+        new Date(trade.timestamp).toISOString(),
+      ].map(csvField).join(','));
+    }
+  }
+  return `${rows.join('\n')}\n`;
+};
+
+export const settlementsToJson = (settlements: readonly RoundSettlement[]): string =>
+  `${JSON.stringify({ exportedAt: new Date().toISOString(), rounds: settlements }, null, 2)}\n`;
+
+/**
+ * Trigger a browser download of `content`
+ */
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
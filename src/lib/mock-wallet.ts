@@ -0,0 +1,156 @@
+/**
+ * Mock Wallet
+ * Fully local WalletAdapter for development and tests. Holds balances in
+ * memory, derives a Solana-style address from a random secret and signs
+ * messages with HMAC-SHA256 under that secret. Every call resolves after a
+ * short delay so the UI sees realistic pending states.
+ */
+
+import { ASSETS, type AssetId } from './assets';
+import { encodeBase58 } from './base58';
+import { TypedEventEmitter } from './event-emitter';
+import { hmacSha256Hex, sha256Bytes, toHex } from './sha256';
+import {
+  type SignedMessage,
+  type WalletAccount,
+  type WalletAdapter,
+  WalletError,
+  type WalletEvents,
+  type WalletTransfer,
+  type WalletTransferType
+} from './wallet-adapter';
+
+export interface MockWalletOptions {
+  balances?: Partial<Record<AssetId, number>>;   // On-chain funds, default DEFAULT_MOCK_BALANCES
+  latencyMs?: number;            // Delay before each call resolves
+  rejectConnect?: boolean;       // Simulate the user declining the connection prompt
+  secret?: string;               // Fixes the address, e.g. for tests
+}
+
+export const DEFAULT_MOCK_BALANCES: Partial<Record<AssetId, number>> = { SOL: 25, USDC: 500 };
+
+const DEFAULT_LATENCY_MS = 300;
+const SECRET_BYTES = 32;
+
+const randomSecret = (): string => {
+  const buffer = new Uint8Array(SECRET_BYTES);
+  crypto.getRandomValues(buffer);
+  return toHex(buffer);
+};
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class MockWalletAdapter extends TypedEventEmitter<WalletEvents> implements WalletAdapter {
+  readonly name = 'Mock Wallet';
+
+  private readonly secret: string;
+  private readonly address: string;
+  private readonly latencyMs: number;
+  private readonly rejectConnect: boolean;
+  private balances: Partial<Record<AssetId, number>>;
+  private account: WalletAccount | null = null;
+  private transferCount = 0;
+
+  constructor(options: MockWalletOptions = {}) {
+    super();
+    this.secret = options.secret ?? randomSecret();
+    this.address = encodeBase58(sha256Bytes(new TextEncoder().encode(this.secret)));
+    this.latencyMs = options.latencyMs ?? DEFAULT_LATENCY_MS;
+    this.rejectConnect = options.rejectConnect ?? false;
+    this.balances = { ...(options.balances ?? DEFAULT_MOCK_BALANCES) };
+  }
+
+  async connect(): Promise<WalletAccount> {
+    await delay(this.latencyMs);
+    if (this.rejectConnect) {
+      throw new WalletError('user-rejected', 'Connection request was rejected');
+    }
+    if (!this.account) {
+      this.account = { address: this.address, label: this.name };
+      this.emit('connect', this.account);
+    }
+    return this.account;
+  }
+
+  async disconnect(): Promise<void> {
+    await delay(this.latencyMs);
+    if (!this.account) return;
+    this.account = null;
+    this.emit('disconnect', undefined);
+  }
+
+  getAccount(): WalletAccount | null {
+    return this.account;
+  }
+
+  async getBalance(asset: AssetId): Promise<number> {
+    this.requireAccount();
+    await delay(this.latencyMs);
+    return this.balances[asset] ?? 0;
+  }
+
+  async signMessage(message: string): Promise<SignedMessage> {
+    const account = this.requireAccount();
+    await delay(this.latencyMs);
+    return { address: account.address, message, signature: hmacSha256Hex(this.secret, message) };
+  }
+
+  /**
+   * Check a signature made by this wallet
+   */
+  verifySignature(signed: SignedMessage): boolean {
+    return signed.address === this.address && signed.signature === hmacSha256Hex(this.secret, signed.message);
+  }
+
+  async deposit(asset: AssetId, amount: number): Promise<WalletTransfer> {
+    this.validateTransfer(asset, amount);
+    await delay(this.latencyMs);
+    const available = this.balances[asset] ?? 0;
+    if (amount > available) {
+      throw new WalletError('insufficient-funds', `Wallet holds ${available} ${asset}`);
+    }
+    this.setBalance(asset, available - amount);
+    return this.receipt('deposit', asset, amount);
+  }
+
+  async withdraw(asset: AssetId, amount: number): Promise<WalletTransfer> {
+    this.validateTransfer(asset, amount);
+    await delay(this.latencyMs);
+    this.setBalance(asset, (this.balances[asset] ?? 0) + amount);
+    return this.receipt('withdraw', asset, amount);
+  }
+
+  private requireAccount(): WalletAccount {
+    if (!this.account) {
+      throw new WalletError('not-connected', 'Wallet is not connected');
+    }
+    return this.account;
+  }
+
+  private validateTransfer(asset: AssetId, amount: number) {
+    this.requireAccount();
+    if (ASSETS[asset].isPaper) {
+      throw new WalletError('unsupported-asset', `${asset} is play money and cannot be transferred`);
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new WalletError('invalid-amount', 'Amount must be above 0');
+    }
+  }
+
+  private setBalance(asset: AssetId, balance: number) {
+    this.balances[asset] = balance;
+    this.emit('balanceChange', { asset, balance });
+  }
+
+  private receipt(type: WalletTransferType, asset: AssetId, amount: number): WalletTransfer {
+    this.transferCount++;
+    return {
+      id: `mock-${type}-${this.transferCount}-${Date.now()}`,
+      type,
+      asset,
+      amount,
+      address: this.address,
+      timestamp: Date.now(),
+    };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Price Path
+ * Tick-by-tick multiplier movement for a round. Every step draws from an
+ * injected random source, so the same (seed, crash point, tick params)
+ * always produces the same sequence of multipliers.
+ */
+
+import { BASE_PRICE_INCREMENT, PRICE_VOLATILITY } from '../components/Chart/CrashChart.constants';
+import { createSeededRandom, type RandomSource } from './prng';
+
+export interface TickParams {
+  volatility: number;      // Scale of per-tick noise and trend
+  trendStrength: number;   // Width of the random trend component
+  spikeChance: number;     // Probability of a spike on any tick
+  spikeSize: number;       // Width of a spike's random move
+  drift: number;           // Per-tick pull toward the crash point (0 = pure random walk)
+  minPrice: number;        // Floor the multiplier can never go below
+}
+
+// Tuned for the 80ms engine tick - smaller per-tick movements
+export const DEFAULT_TICK_PARAMS: TickParams = {
+  volatility: PRICE_VOLATILITY,
+  trendStrength: 0.3,
+  spikeChance: 0.02,
+  spikeSize: 0.22,
+  drift: BASE_PRICE_INCREMENT,
+  minPrice: 0.01,
+};
+
+export interface PriceStep {
+  price: number;
+  crashed: boolean;
+}
+
+export interface PricePath {
+  ticks: number[];       // Multiplier after every tick; the last entry is the crash point
+  complete: boolean;     // false when maxTicks was reached before the crash
+}
+
+export interface PricePathOptions {
+  initialPrice?: number;
+  maxTicks?: number;
+}
+
+// Replays stop here; a path that long is reported as incomplete
+export const MAX_REPLAY_TICKS = 250_000;
+
+/**
+ * Advance the multiplier by one tick and check it against the crash point
+ */
+export const nextPrice = (
+  prev: number,
+  crashPoint: number,
+  random: RandomSource,
+  params: TickParams = DEFAULT_TICK_PARAMS
+): PriceStep => {
+  const { volatility, trendStrength, spikeChance, spikeSize, drift, minPrice } = params;
+
+  const trend = (random() - 0.5) * trendStrength;
+  const spike = random() < spikeChance ? (random() - 0.5) * spikeSize : 0;
+  const noise = (random() - 0.5) * volatility;
+  const pull = crashPoint < 1 ? -drift : drift;
+  const momentum = trend * volatility + noise + spike + pull;
+  const price = Math.max(minPrice, prev + momentum);
+
+  const crashed = (crashPoint < 1 && price <= crashPoint) || (crashPoint >= 1 && price >= crashPoint);
+  return crashed ? { price: crashPoint, crashed } : { price, crashed };
+};
+
+/**
+ * Run a round to completion from an existing random source
+ */
+export const runPricePath = (
+  crashPoint: number,
+  random: RandomSource,
+  params: TickParams = DEFAULT_TICK_PARAMS,
+  { initialPrice = 1.0, maxTicks = MAX_REPLAY_TICKS }: PricePathOptions = {}
+): PricePath => {
+  const ticks: number[] = [];
+  let price = initialPrice;
+
+  while (ticks.length < maxTicks) {
+    const step = nextPrice(price, crashPoint, random, params);
+    ticks.push(step.price);
+    if (step.crashed) return { ticks, complete: true };
+    price = step.price;
+  }
+
+  return { ticks, complete: false };
+};
+
+/**
+ * Generate the full multiplier sequence for a seed
+ */
+export const generatePricePath = (
+  seed: string | number,
+  crashPoint: number,
+  params: TickParams = DEFAULT_TICK_PARAMS,
+  options: PricePathOptions = {}
+): PricePath => runPricePath(crashPoint, createSeededRandom(seed), params, options);
+
+/**
+ * Step-by-step generator for a seed, for consumers that tick on a timer.
+ * Once the path has crashed it keeps returning the crash step.
+ */
+export const createPricePath = (
+  seed: string | number,
+  crashPoint: number,
+  params: TickParams = DEFAULT_TICK_PARAMS,
+  initialPrice = 1.0
+): (() => PriceStep) => {
+  const random = createSeededRandom(seed);
+  let last: PriceStep = { price: initialPrice, crashed: false };
+
+  return () => {
+    if (!last.crashed) {
+      last = nextPrice(last.price, crashPoint, random, params);
+    }
+    return last;
+  };
+};
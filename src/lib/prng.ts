@@ -0,0 +1,43 @@
+/**
+ * Seeded Pseudo-Random Number Generator
+ * sfc32 keyed from the SHA-256 of a seed string: fast, 128-bit state and
+ * identical output on every platform for the same seed.
+ */
+
+import { sha256Bytes } from './sha256';
+
+export type RandomSource = () => number;
+
+const encoder = new TextEncoder();
+
+/**
+ * sfc32 ("Small Fast Counting") generator over four 32-bit words
+ */
+export const sfc32 = (a: number, b: number, c: number, d: number): RandomSource => {
+  let s0 = a >>> 0;
+  let s1 = b >>> 0;
+  let s2 = c >>> 0;
+  let s3 = d >>> 0;
+
+  return () => {
+    const t = (((s0 + s1) >>> 0) + s3) >>> 0;
+    s3 = (s3 + 1) >>> 0;
+    s0 = s1 ^ (s1 >>> 9);
+    s1 = (s2 + (s2 << 3)) >>> 0;
+    s2 = (s2 << 21) | (s2 >>> 11);
+    s2 = (s2 + t) >>> 0;
+    return t / 0x100000000;
+  };
+};
+
+/**
+ * Deterministic random source for any string or numeric seed
+ */
+export const createSeededRandom = (seed: string | number): RandomSource => {
+  const view = new DataView(sha256Bytes(encoder.encode(String(seed))).buffer);
+  const random = sfc32(view.getUint32(0), view.getUint32(4), view.getUint32(8), view.getUint32(12));
+
+  // Discard the first outputs so similar seeds diverge immediately
+  for (let i = 0; i < 12; i++) random();
+  return random;
+};
@@ -0,0 +1,565 @@
+/**
+ * Realtime Client
+ * Plays rounds streamed by a game server instead of running the engine
+ * locally. Mirrors the engine's state and events so the chart and betting
+ * state work unchanged, sends the player's bets and cash outs for the server
+ * to fill and reconnects with backoff when the socket drops. Ticks go through
+ * a jitter buffer and are replayed on the server's clock, a fixed delay
+ * behind it; the crash is applied the moment it arrives.
+ */
+
+import type { CandleData, GameState } from '../components/Chart/CrashChart.types';
+import type { AssetId } from './assets';
+import { ClockOffsetEstimator } from './clock-sync';
+import { TypedEventEmitter } from './event-emitter';
+import type { SeedCommitment } from './fairness';
+import { DEFAULT_ENGINE_CONFIG, type GameEngineConfig, type GameEngineEvents, type GameSource } from './game-engine';
+import {
+  type BetAcceptedMessage,
+  type BetPlacedMessage,
+  type BetRejectReason,
+  type CashedOutMessage,
+  type CashOutAcceptedMessage,
+  type CashOutRejectReason,
+  type ChatMessage,
+  type ClientMessage,
+  decodeServerMessage,
+  encodeMessage,
+  type ErrorMessage,
+  type ServerMessage,
+  type TickMessage,
+  type WelcomeMessage,
+} from './realtime-protocol';
+import { TickBuffer, type TickBufferStats, type TimedTick } from './tick-buffer';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface ConnectionStatusEvent {
+  status: ConnectionStatus;
+  error: string | null;          // Why the connection was closed for good, if it was
+}
+
+export interface RealtimeClientEvents extends GameEngineEvents {
+  status: ConnectionStatusEvent;
+  welcome: WelcomeMessage;
+  betPlaced: BetPlacedMessage;
+  cashedOut: CashedOutMessage;
+  chat: ChatMessage;
+  serverError: ErrorMessage;
+}
+
+// A request whose fate is unknown: it may or may not have been filled
+export type UnconfirmedRequest = { status: 'unconfirmed'; reason: 'not-connected' | 'timeout' | 'disconnected' };
+
+export type BetResolution =
+  | { status: 'accepted'; ack: BetAcceptedMessage }
+  | { status: 'rejected'; reason: BetRejectReason }
+  | UnconfirmedRequest;
+
+export type CashOutResolution =
+  | { status: 'accepted'; ack: CashOutAcceptedMessage }
+  | { status: 'rejected'; reason: CashOutRejectReason }
+  | UnconfirmedRequest;
+
+type PendingRequests<T> = Map<string, (resolution: T | UnconfirmedRequest) => void>;
+
+export interface RealtimeNetworkStats extends TickBufferStats {
+  latencyMs: number | null;      // Half the latest ping round trip
+  clockOffsetMs: number;         // Server clock minus local clock
+  playbackDelayMs: number;
+  bufferedMs: number;            // How far the newest buffered tick is ahead of playback
+}
+
+export interface RealtimeClientOptions {
+  name?: string;                 // Display name sent with `hello`
+  reconnectDelayMs: number;      // First retry delay, doubled per failed attempt
+  maxReconnectDelayMs: number;
+  playbackDelayMs: number;       // How far behind the server ticks are replayed
+  playbackIntervalMs: number;    // How often due ticks are released
+  pingIntervalMs: number;
+  requestTimeoutMs: number;      // Give up waiting for a bet or cash out ack after this long
+}
+
+const DEFAULT_CLIENT_OPTIONS: RealtimeClientOptions = {
+  reconnectDelayMs: 1000,
+  maxReconnectDelayMs: 10000,
+  playbackDelayMs: 150,
+  playbackIntervalMs: 16,
+  pingIntervalMs: 2000,
+  requestTimeoutMs: 5000,
+};
+
+const initialState = (config: GameEngineConfig): GameState => ({
+  phase: 'waiting',
+  multiplier: config.initialMultiplier,
+  crashPoint: 0,
+  countdown: 0,
+  tickNumber: 0,
+  roundNumber: 0,
+});
+
+export class RealtimeGameClient extends TypedEventEmitter<RealtimeClientEvents> implements GameSource {
+  readonly url: string;
+  private options: RealtimeClientOptions;
+
+  private currentConfig: GameEngineConfig = DEFAULT_ENGINE_CONFIG;
+  private state: GameState = initialState(DEFAULT_ENGINE_CONFIG);
+  private candles: CandleData[] = [];
+  private candleIndex = 0;
+  private playerId: string | null = null;
+  private commitment: SeedCommitment | null = null;
+  // Latest tick played back that came from the server rather than gap filling
+  private lastServerTick = { tick: 0, multiplier: DEFAULT_ENGINE_CONFIG.initialMultiplier };
+
+  private clock = new ClockOffsetEstimator();
+  private buffer = new TickBuffer<TickMessage>();
+  private playbackTimer: ReturnType<typeof setInterval> | null = null;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  private requestCount = 0;
+  private pendingBets: PendingRequests<BetResolution> = new Map();
+  private pendingCashOuts: PendingRequests<CashOutResolution> = new Map();
+
+  private socket: WebSocket | null = null;
+  private status: ConnectionStatus = 'idle';
+  private running = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(url: string, options: Partial<RealtimeClientOptions> = {}) {
+    super();
+    this.url = url;
+    this.options = { ...DEFAULT_CLIENT_OPTIONS, ...options };
+  }
+
+  /**
+   * Engine config announced by the server; the defaults until it has welcomed us
+   */
+  get config(): GameEngineConfig {
+    return this.currentConfig;
+  }
+
+  /**
+   * Connect and keep reconnecting until `stop()`
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.reconnectAttempts = 0;
+    this.playbackTimer = setInterval(() => this.playBuffered(), this.options.playbackIntervalMs);
+    this.connect();
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+    this.closeSocket();
+    this.setStatus('idle');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  getState(): GameState {
+    return this.state;
+  }
+
+  getCandles(): CandleData[] {
+    return this.candles;
+  }
+
+  /**
+   * Commitment the server last announced, null before joining
+   */
+  getCommitment(): SeedCommitment | null {
+    return this.commitment;
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Id the server assigned on the last welcome, null before joining
+   */
+  getPlayerId(): string | null {
+    return this.playerId;
+  }
+
+  /**
+   * Ask the server to bet `amount`. It is filled at the server's tick when
+   * the request arrives; the tick quoted with it only vouches for the round.
+   */
+  requestBet(asset: AssetId, amount: number): Promise<BetResolution> {
+    const { roundNumber } = this.state;
+    const { tick: seenTick, multiplier } = this.lastServerTick;
+    return this.request(this.pendingBets, 'b', (requestId) => (
+      { type: 'placeBet', requestId, roundNumber, seenTick, multiplier, asset, amount }
+    ));
+  }
+
+  /**
+   * Ask the server to sell part of the position. It is priced at the
+   * server's tick when the request arrives, not at the one on screen, and
+   * never above `maxMultiplier` when one is given.
+   */
+  requestCashOut(asset: AssetId, percentage: number, maxMultiplier?: number): Promise<CashOutResolution> {
+    const { roundNumber, tickNumber } = this.state;
+    return this.request(this.pendingCashOuts, 'c', (requestId) => (
+      { type: 'cashOutRequest', requestId, roundNumber, seenTick: tickNumber, asset, percentage, maxMultiplier }
+    ));
+  }
+
+  sendChat(text: string): boolean {
+    return this.send({ type: 'chat', text });
+  }
+
+  /**
+   * Change how far behind the server ticks are replayed. Longer absorbs more
+   * jitter at the cost of seeing the round later.
+   */
+  setPlaybackDelay(delayMs: number): void {
+    this.options = { ...this.options, playbackDelayMs: Math.max(0, delayMs) };
+  }
+
+  getNetworkStats(): RealtimeNetworkStats {
+    const rtt = this.clock.getRtt();
+    const newest = this.buffer.getNewestSentAt();
+    return {
+      ...this.buffer.getStats(),
+      latencyMs: rtt === null ? null : rtt / 2,
+      clockOffsetMs: this.clock.getOffset(),
+      playbackDelayMs: this.options.playbackDelayMs,
+      bufferedMs: newest === null ? 0 : Math.max(0, newest - this.playbackTime()),
+    };
+  }
+
+  private send(message: ClientMessage): boolean {
+    if (this.status !== 'open' || !this.socket) return false;
+    this.socket.send(encodeMessage(message));
+    return true;
+  }
+
+  private connect(): void {
+    this.setStatus(this.reconnectAttempts === 0 ? 'connecting' : 'reconnecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch {
+      this.fail(`Invalid realtime server URL ${this.url}`);
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(encodeMessage({ type: 'hello', name: this.options.name }));
+    };
+    socket.onmessage = (event) => {
+      if (typeof event.data === 'string') this.receive(event.data);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopPinging();
+      this.abandonRequests();
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running) return;
+    const { reconnectDelayMs, maxReconnectDelayMs } = this.options;
+    const delay = Math.min(maxReconnectDelayMs, reconnectDelayMs * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.setStatus('reconnecting');
+    console.log(`🔌 Realtime connection lost, retrying in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private closeSocket(): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.stopPinging();
+    this.abandonRequests();
+    socket?.close();
+  }
+
+  // Send a request and wait for its ack, a timeout or the socket closing
+  private request<T>(
+    pending: PendingRequests<T>,
+    prefix: string,
+    build: (requestId: string) => ClientMessage
+  ): Promise<T | UnconfirmedRequest> {
+    this.requestCount++;
+    const requestId = `${prefix}${this.requestCount}`;
+
+    if (!this.send(build(requestId))) {
+      return Promise.resolve({ status: 'unconfirmed', reason: 'not-connected' });
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.settle(pending, requestId, { status: 'unconfirmed', reason: 'timeout' }), this.options.requestTimeoutMs);
+      pending.set(requestId, (resolution) => {
+        clearTimeout(timer);
+        resolve(resolution);
+      });
+    });
+  }
+
+  private settle<T>(pending: PendingRequests<T>, requestId: string, resolution: T | UnconfirmedRequest): void {
+    const settle = pending.get(requestId);
+    if (!settle) return;
+    pending.delete(requestId);
+    settle(resolution);
+  }
+
+  // Whether an in-flight request was filled is unknown once the socket is gone
+  private abandonRequests(): void {
+    const disconnected: UnconfirmedRequest = { status: 'unconfirmed', reason: 'disconnected' };
+    for (const requestId of [...this.pendingBets.keys()]) this.settle(this.pendingBets, requestId, disconnected);
+    for (const requestId of [...this.pendingCashOuts.keys()]) this.settle(this.pendingCashOuts, requestId, disconnected);
+  }
+
+  private startPinging(): void {
+    this.stopPinging();
+    const ping = () => this.send({ type: 'ping', clientTime: Date.now() });
+    ping();
+    this.pingTimer = setInterval(ping, this.options.pingIntervalMs);
+  }
+
+  private stopPinging(): void {
+    if (this.pingTimer !== null) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.clock.reset();
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    if (this.playbackTimer !== null) clearInterval(this.playbackTimer);
+    this.reconnectTimer = null;
+    this.playbackTimer = null;
+  }
+
+  // Give up for good: a bad URL or a server on another protocol version never accepts us
+  private fail(error: string): void {
+    console.warn(`⚠️ ${error}`);
+    this.running = false;
+    this.clearTimers();
+    this.closeSocket();
+    this.setStatus('closed', error);
+  }
+
+  private setStatus(status: ConnectionStatus, error: string | null = null): void {
+    if (status === this.status && error === null) return;
+    this.status = status;
+    this.emit('status', { status, error });
+  }
+
+  private receive(raw: string): void {
+    const result = decodeServerMessage(raw);
+    if (result.status === 'unsupported-version') {
+      this.fail(`Server speaks protocol v${String(result.version)}, this client needs a matching version`);
+      return;
+    }
+    if (result.status === 'invalid') {
+      console.warn('⚠️ Dropped realtime message:', result.reason);
+      return;
+    }
+    this.handle(result.message);
+  }
+
+  private handle(message: ServerMessage): void {
+    switch (message.type) {
+      case 'welcome':
+        this.handleWelcome(message);
+        break;
+      case 'roundStart':
+        this.state = {
+          phase: 'running',
+          multiplier: message.multiplier,
+          crashPoint: 0,
+          countdown: 0,
+          tickNumber: 0,
+          roundNumber: message.roundNumber,
+        };
+        this.candles = [{
+          open: message.multiplier,
+          high: message.multiplier,
+          low: message.multiplier,
+          close: message.multiplier,
+          time: message.startedAt,
+          tickCount: 0,
+        }];
+        this.candleIndex = 0;
+        this.commitment = message.commitment;
+        this.lastServerTick = { tick: 0, multiplier: message.multiplier };
+        this.buffer.reset(0, message.startedAt, message.multiplier);
+        this.emit('roundStart', {
+          roundNumber: message.roundNumber,
+          commitment: message.commitment,
+          crashPoint: 0,
+          multiplier: message.multiplier,
+        });
+        break;
+      case 'tick':
+        if (message.roundNumber === this.state.roundNumber && this.state.phase === 'running') {
+          this.buffer.push(message.tick, message.sentAt, message.multiplier, message);
+        }
+        break;
+      case 'crash':
+        // Authoritative: skip whatever is still buffered and crash now
+        this.buffer.reset(message.tick, message.sentAt, message.crashPoint);
+        this.state = {
+          ...this.state,
+          phase: 'crashed',
+          multiplier: message.crashPoint,
+          crashPoint: message.crashPoint,
+          tickNumber: message.tick,
+        };
+        this.emit('crash', {
+          roundNumber: message.roundNumber,
+          tick: message.tick,
+          crashPoint: message.crashPoint,
+          revealed: message.revealed,
+        });
+        break;
+      case 'countdown':
+        this.state = { ...this.state, countdown: message.secondsLeft };
+        this.emit('countdown', { nextRoundNumber: message.nextRoundNumber, secondsLeft: message.secondsLeft });
+        break;
+      case 'betPlaced':
+        this.emit('betPlaced', message);
+        break;
+      case 'cashedOut':
+        this.emit('cashedOut', message);
+        break;
+      case 'chat':
+        this.emit('chat', message);
+        break;
+      case 'betAccepted':
+        this.settle(this.pendingBets, message.requestId, { status: 'accepted', ack: message });
+        break;
+      case 'betRejected':
+        this.settle(this.pendingBets, message.requestId, { status: 'rejected', reason: message.reason });
+        break;
+      case 'cashOutAccepted':
+        this.settle(this.pendingCashOuts, message.requestId, { status: 'accepted', ack: message });
+        break;
+      case 'cashOutRejected':
+        this.settle(this.pendingCashOuts, message.requestId, { status: 'rejected', reason: message.reason });
+        break;
+      case 'pong':
+        this.clock.addSample(message.clientTime, message.serverTime, Date.now());
+        break;
+      case 'error':
+        console.warn(`⚠️ Realtime server error (${message.code}): ${message.message}`);
+        if (message.code === 'unsupported-version') {
+          this.fail(message.message);
+          return;
+        }
+        this.emit('serverError', message);
+        break;
+    }
+  }
+
+  private handleWelcome(message: WelcomeMessage): void {
+    const previousRound = this.state.roundNumber;
+    this.currentConfig = { ...DEFAULT_ENGINE_CONFIG, ...message.config };
+    this.state = message.state;
+    this.candles = message.candles;
+    this.candleIndex = message.candleIndex;
+    this.playerId = message.playerId;
+    this.commitment = message.commitment;
+    this.lastServerTick = { tick: message.state.tickNumber, multiplier: message.state.multiplier };
+    this.reconnectAttempts = 0;
+    this.clock.seed(message.serverTime, Date.now());
+    this.buffer.reset(message.state.tickNumber, message.serverTime, message.state.multiplier);
+    this.setStatus('open');
+    this.startPinging();
+    console.log(`🌐 Joined ${this.url} as ${message.name}`);
+    this.emit('welcome', message);
+
+    // Joining (or rejoining into a new round) mid-round: start it from the snapshot
+    if (message.state.phase === 'running' && message.state.roundNumber !== previousRound) {
+      this.emit('roundStart', {
+        roundNumber: message.state.roundNumber,
+        commitment: message.commitment,
+        crashPoint: 0,
+        multiplier: message.state.multiplier,
+      });
+    } else if (message.state.countdown > 0) {
+      this.emit('countdown', { nextRoundNumber: message.state.roundNumber + 1, secondsLeft: message.state.countdown });
+    }
+  }
+
+  private playbackTime(): number {
+    return this.clock.toServerTime(Date.now()) - this.options.playbackDelayMs;
+  }
+
+  private playBuffered(): void {
+    if (this.state.phase !== 'running') return;
+    for (const tick of this.buffer.drain(this.playbackTime())) {
+      if (tick.payload) {
+        this.applyTick(tick.payload);
+      } else {
+        this.applyFilledTick(tick);
+      }
+    }
+  }
+
+  private applyTick(message: TickMessage): void {
+    const maxCandles = this.currentConfig.maxCandles;
+
+    if (message.closedCandle) {
+      this.candles = [...this.candles.slice(0, -1), message.closedCandle, message.candle].slice(-maxCandles);
+      this.emit('candleClosed', {
+        roundNumber: message.roundNumber,
+        candle: message.closedCandle,
+        candleIndex: message.candleIndex - 1,
+      });
+    } else if (message.candleIndex !== this.candleIndex) {
+      // The tick that closed the previous candle was lost; keep our approximation of it
+      this.candles = [...this.candles, message.candle].slice(-maxCandles);
+    } else {
+      this.candles = [...this.candles.slice(0, -1), message.candle];
+    }
+
+    this.candleIndex = message.candleIndex;
+    this.lastServerTick = { tick: message.tick, multiplier: message.multiplier };
+    this.emitTick(message.tick, message.multiplier, message.candle);
+  }
+
+  // A tick that never arrived: extend the current candle to the interpolated price
+  private applyFilledTick({ seq, multiplier }: TimedTick<TickMessage>): void {
+    const last = this.candles[this.candles.length - 1];
+    const candle: CandleData = {
+      ...last,
+      high: Math.max(last.high, multiplier),
+      low: Math.min(last.low, multiplier),
+      close: multiplier,
+      tickCount: last.tickCount + 1,
+    };
+    this.candles = [...this.candles.slice(0, -1), candle];
+    this.emitTick(seq, multiplier, candle);
+  }
+
+  private emitTick(tick: number, multiplier: number, candle: CandleData): void {
+    this.state = { ...this.state, multiplier, tickNumber: tick };
+    this.emit('tick', {
+      roundNumber: this.state.roundNumber,
+      tick,
+      multiplier,
+      candle,
+      candleIndex: this.candleIndex,
+    });
+  }
+}
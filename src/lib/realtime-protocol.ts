@@ -0,0 +1,396 @@
+/**
+ * Realtime Protocol
+ * Versioned JSON messages between the game server and its players. The
+ * server runs the engine and streams rounds; clients request bets and cash
+ * outs - which the server fills at its own tick - and chat. Every frame is
+ * `{ v, type, ...fields }` and is validated on receipt.
+ */
+
+import type { CandleData, GameState } from '../components/Chart/CrashChart.types';
+import { type AssetId, isAssetId } from './assets';
+import type { RevealedRound, SeedCommitment } from './fairness';
+import type { GameEngineConfig } from './game-engine';
+
+/** Bumped on any breaking change; peers on another version are turned away */
+export const PROTOCOL_VERSION = 5;
+
+// ===== SERVER → CLIENT =====
+
+/** Reply to `hello`: who you are plus a snapshot to join mid-round */
+export interface WelcomeMessage {
+  type: 'welcome';
+  playerId: string;
+  name: string;
+  serverTime: number;
+  config: GameEngineConfig;
+  state: GameState;              // crashPoint is 0 until the round crashes
+  candles: CandleData[];
+  candleIndex: number;           // Index of the last candle in `candles`
+  commitment: SeedCommitment;
+}
+
+export interface RoundStartMessage {
+  type: 'roundStart';
+  roundNumber: number;
+  commitment: SeedCommitment;
+  multiplier: number;
+  startedAt: number;
+}
+
+export interface TickMessage {
+  type: 'tick';
+  roundNumber: number;
+  tick: number;
+  multiplier: number;
+  candle: CandleData;            // Candle in progress
+  candleIndex: number;
+  closedCandle?: CandleData;     // Final values of the previous candle if this tick closed it
+  sentAt: number;                // Server clock; ticks are replayed on this timeline
+}
+
+export interface CrashMessage {
+  type: 'crash';
+  roundNumber: number;
+  tick: number;
+  crashPoint: number;
+  revealed: RevealedRound | null;
+  sentAt: number;
+}
+
+export interface CountdownMessage {
+  type: 'countdown';
+  nextRoundNumber: number;
+  secondsLeft: number;
+}
+
+export interface BetPlacedMessage {
+  type: 'betPlaced';
+  roundNumber: number;
+  playerId: string;
+  name: string;
+  asset: AssetId;
+  amount: number;
+  multiplier: number;
+}
+
+export interface CashedOutMessage {
+  type: 'cashedOut';
+  roundNumber: number;
+  playerId: string;
+  name: string;
+  asset: AssetId;
+  amount: number;                // Stake sold
+  multiplier: number;
+  payout: number;
+}
+
+export interface ChatMessage {
+  type: 'chat';
+  playerId: string;
+  name: string;
+  text: string;
+  sentAt: number;
+}
+
+/** A bet filled at the server's current tick */
+export interface BetAcceptedMessage {
+  type: 'betAccepted';
+  requestId: string;
+  roundNumber: number;
+  seenTick: number;              // Tick the player was looking at when they bet
+  tick: number;                  // Tick the bet was priced at
+  multiplier: number;            // Entry price
+  amount: number;
+}
+
+export type BetRejectReason = 'round-crashed' | 'invalid-request';
+
+export interface BetRejectedMessage {
+  type: 'betRejected';
+  requestId: string;
+  reason: BetRejectReason;
+}
+
+/** A cash out request filled at the server's current tick */
+export interface CashOutAcceptedMessage {
+  type: 'cashOutAccepted';
+  requestId: string;
+  roundNumber: number;
+  seenTick: number;              // Tick the player was looking at when they sold
+  tick: number;                  // Tick the sale was priced at
+  multiplier: number;
+  amount: number;                // Stake sold
+  payout: number;                // Gross of the player's fees
+}
+
+export type CashOutRejectReason = 'round-crashed' | 'no-position' | 'invalid-request';
+
+export interface CashOutRejectedMessage {
+  type: 'cashOutRejected';
+  requestId: string;
+  reason: CashOutRejectReason;
+}
+
+/** Reply to `ping`, for clock sync and latency */
+export interface PongMessage {
+  type: 'pong';
+  clientTime: number;            // Echoed from the ping
+  serverTime: number;
+}
+
+export type ProtocolErrorCode =
+  | 'unsupported-version'
+  | 'invalid-message'
+  | 'not-joined'
+  | 'rate-limited';
+
+export interface ErrorMessage {
+  type: 'error';
+  code: ProtocolErrorCode;
+  message: string;
+}
+
+export type ServerMessage =
+  | WelcomeMessage
+  | RoundStartMessage
+  | TickMessage
+  | CrashMessage
+  | CountdownMessage
+  | BetPlacedMessage
+  | CashedOutMessage
+  | ChatMessage
+  | PongMessage
+  | BetAcceptedMessage
+  | BetRejectedMessage
+  | CashOutAcceptedMessage
+  | CashOutRejectedMessage
+  | ErrorMessage;
+
+// ===== CLIENT → SERVER =====
+
+export interface HelloMessage {
+  type: 'hello';
+  name?: string;
+}
+
+/** Intent to bet; answered with accepted or rejected */
+export interface PlaceBetRequestMessage {
+  type: 'placeBet';
+  requestId: string;
+  roundNumber: number;
+  seenTick: number;              // Latest server tick on the player's screen (never a gap-filled one)
+  multiplier: number;            // That tick's multiplier; checked, never used as the price
+  asset: AssetId;
+  amount: number;
+}
+
+/** Intent to sell part of the position; answered with accepted or rejected */
+export interface CashOutRequestMessage {
+  type: 'cashOutRequest';
+  requestId: string;
+  roundNumber: number;
+  seenTick: number;
+  asset: AssetId;
+  percentage: number;
+  maxMultiplier?: number;        // Fill no higher than this (payout caps); it can only lower the price
+}
+
+export interface SendChatMessage {
+  type: 'chat';
+  text: string;
+}
+
+export interface PingMessage {
+  type: 'ping';
+  clientTime: number;
+}
+
+export type ClientMessage =
+  | HelloMessage
+  | PlaceBetRequestMessage
+  | CashOutRequestMessage
+  | SendChatMessage
+  | PingMessage;
+
+// ===== ENCODING =====
+
+export type DecodeResult<T> =
+  | { status: 'ok'; message: T }
+  | { status: 'unsupported-version'; version: unknown }
+  | { status: 'invalid'; reason: string };
+
+/**
+ * Serialize a message with the protocol version stamped on it
+ */
+export const encodeMessage = (message: ServerMessage | ClientMessage): string =>
+  JSON.stringify({ v: PROTOCOL_VERSION, ...message });
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const optional = (check: FieldCheck): FieldCheck => (value) => value === undefined || check(value);
+
+const hasFields = (fields: Record<string, FieldCheck>): FieldCheck => (value) =>
+  isRecord(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const isCandle = hasFields({
+  open: isFiniteNumber,
+  high: isFiniteNumber,
+  low: isFiniteNumber,
+  close: isFiniteNumber,
+  time: isFiniteNumber,
+  tickCount: isFiniteNumber,
+});
+
+const isCommitment = hasFields({
+  serverSeedHash: isString,
+  clientSeed: isString,
+  nonce: isFiniteNumber,
+  distribution: isString,
+});
+
+const isGameState = hasFields({
+  phase: (value) => value === 'waiting' || value === 'running' || value === 'crashed',
+  multiplier: isFiniteNumber,
+  crashPoint: isFiniteNumber,
+  countdown: isFiniteNumber,
+  tickNumber: isFiniteNumber,
+  roundNumber: isFiniteNumber,
+});
+
+const SERVER_FIELDS: Record<ServerMessage['type'], Record<string, FieldCheck>> = {
+  welcome: {
+    playerId: isString,
+    name: isString,
+    serverTime: isFiniteNumber,
+    config: hasFields({ tickMs: isFiniteNumber, ticksPerCandle: isFiniteNumber, initialMultiplier: isFiniteNumber, maxCandles: isFiniteNumber }),
+    state: isGameState,
+    candles: (value) => Array.isArray(value) && value.every(isCandle),
+    candleIndex: isFiniteNumber,
+    commitment: isCommitment,
+  },
+  roundStart: { roundNumber: isFiniteNumber, commitment: isCommitment, multiplier: isFiniteNumber, startedAt: isFiniteNumber },
+  tick: {
+    roundNumber: isFiniteNumber,
+    tick: isFiniteNumber,
+    multiplier: isFiniteNumber,
+    candle: isCandle,
+    candleIndex: isFiniteNumber,
+    closedCandle: optional(isCandle),
+    sentAt: isFiniteNumber,
+  },
+  crash: {
+    roundNumber: isFiniteNumber,
+    tick: isFiniteNumber,
+    crashPoint: isFiniteNumber,
+    revealed: (value) => value === null || hasFields({ serverSeed: isString, crashPoint: isFiniteNumber })(value),
+    sentAt: isFiniteNumber,
+  },
+  countdown: { nextRoundNumber: isFiniteNumber, secondsLeft: isFiniteNumber },
+  betPlaced: {
+    roundNumber: isFiniteNumber,
+    playerId: isString,
+    name: isString,
+    asset: isAssetId,
+    amount: isFiniteNumber,
+    multiplier: isFiniteNumber,
+  },
+  cashedOut: {
+    roundNumber: isFiniteNumber,
+    playerId: isString,
+    name: isString,
+    asset: isAssetId,
+    amount: isFiniteNumber,
+    multiplier: isFiniteNumber,
+    payout: isFiniteNumber,
+  },
+  chat: { playerId: isString, name: isString, text: isString, sentAt: isFiniteNumber },
+  pong: { clientTime: isFiniteNumber, serverTime: isFiniteNumber },
+  betAccepted: {
+    requestId: isString,
+    roundNumber: isFiniteNumber,
+    seenTick: isFiniteNumber,
+    tick: isFiniteNumber,
+    multiplier: isFiniteNumber,
+    amount: isFiniteNumber,
+  },
+  betRejected: {
+    requestId: isString,
+    reason: (value) => value === 'round-crashed' || value === 'invalid-request',
+  },
+  cashOutAccepted: {
+    requestId: isString,
+    roundNumber: isFiniteNumber,
+    seenTick: isFiniteNumber,
+    tick: isFiniteNumber,
+    multiplier: isFiniteNumber,
+    amount: isFiniteNumber,
+    payout: isFiniteNumber,
+  },
+  cashOutRejected: {
+    requestId: isString,
+    reason: (value) => value === 'round-crashed' || value === 'no-position' || value === 'invalid-request',
+  },
+  error: { code: isString, message: isString },
+};
+
+const CLIENT_FIELDS: Record<ClientMessage['type'], Record<string, FieldCheck>> = {
+  hello: { name: optional(isString) },
+  placeBet: {
+    requestId: isString,
+    roundNumber: isFiniteNumber,
+    seenTick: isFiniteNumber,
+    multiplier: isFiniteNumber,
+    asset: isAssetId,
+    amount: isFiniteNumber,
+  },
+  cashOutRequest: {
+    requestId: isString,
+    roundNumber: isFiniteNumber,
+    seenTick: isFiniteNumber,
+    asset: isAssetId,
+    percentage: isFiniteNumber,
+    maxMultiplier: optional(isFiniteNumber),
+  },
+  chat: { text: isString },
+  ping: { clientTime: isFiniteNumber },
+};
+
+const decode = <T>(raw: string, schemas: Record<string, Record<string, FieldCheck>>): DecodeResult<T> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { status: 'invalid', reason: 'Frame is not valid JSON' };
+  }
+  if (!isRecord(data)) return { status: 'invalid', reason: 'Frame is not an object' };
+  if (data.v !== PROTOCOL_VERSION) return { status: 'unsupported-version', version: data.v };
+
+  const { v: _version, ...message } = data;
+  const fields = isString(message.type) && Object.prototype.hasOwnProperty.call(schemas, message.type) ? schemas[message.type] : undefined;
+  if (!fields) return { status: 'invalid', reason: `Unknown message type ${String(message.type)}` };
+
+  const badField = Object.keys(fields).find(key => !fields[key](message[key]));
+  if (badField) return { status: 'invalid', reason: `Bad field "${badField}" in ${message.type}` };
+
+  return { status: 'ok', message: message as T };
+};
+
+/**
+ * Parse and validate a frame received from the server
+ */
+export const decodeServerMessage = (raw: string): DecodeResult<ServerMessage> =>
+  decode<ServerMessage>(raw, SERVER_FIELDS);
+
+/**
+ * Parse and validate a frame received from a player
+ */
+export const decodeClientMessage = (raw: string): DecodeResult<ClientMessage> =>
+  decode<ClientMessage>(raw, CLIENT_FIELDS);
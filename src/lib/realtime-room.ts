@@ -0,0 +1,328 @@
+/**
+ * Realtime Room
+ * Server side of the realtime protocol: runs one game engine and streams its
+ * rounds to every joined player, relaying bets, cash outs and chat. Every
+ * bet and cash out is filled at the server's tick, never at a price the
+ * client names, against a position the room tracks per player.
+ * Transport-agnostic - the caller feeds it raw frames per connection, so it
+ * runs behind a WebSocket server or in-process.
+ */
+
+import type { CandleData } from '../components/Chart/CrashChart.types';
+import type { ProvablyFair } from './fairness';
+import type { AssetId } from './assets';
+import { GameEngine, type GameEngineConfig } from './game-engine';
+import {
+  type BetRejectReason,
+  type CashOutRejectReason,
+  type CashOutRequestMessage,
+  type ClientMessage,
+  decodeClientMessage,
+  encodeMessage,
+  type PlaceBetRequestMessage,
+  PROTOCOL_VERSION,
+  type ProtocolErrorCode,
+  type ServerMessage,
+} from './realtime-protocol';
+import { weightedEntry } from './round-ledger';
+
+/** One player's socket, as seen by the room */
+export interface RoomConnection {
+  send: (data: string) => void;
+  close: () => void;
+}
+
+export interface GameRoomOptions {
+  maxNameLength: number;
+  maxChatLength: number;
+  chatIntervalMs: number;        // Minimum gap between one player's chat messages
+}
+
+const DEFAULT_ROOM_OPTIONS: GameRoomOptions = {
+  maxNameLength: 24,
+  maxChatLength: 280,
+  chatIntervalMs: 1000,
+};
+
+// Quoted prices survive the JSON round trip exactly; this only absorbs noise
+const PRICE_EPSILON = 1e-9;
+
+interface Position {
+  roundNumber: number;
+  asset: AssetId;
+  amount: number;
+  entryMultiplier: number;
+}
+
+interface Player {
+  id: string;
+  name: string | null;           // Null until the player has said hello
+  connection: RoomConnection;
+  lastChatAt: number;
+  position: Position | null;     // Built from the player's filled bets and sales
+}
+
+export class GameRoom {
+  readonly engine: GameEngine;
+  private fairness: ProvablyFair;
+  private options: GameRoomOptions;
+  private players = new Map<string, Player>();
+  private connectionCount = 0;
+  private candleIndex = 0;
+  private roundPath: number[] = [];   // Multiplier sent for every tick of the round, by tick number
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(fairness: ProvablyFair, config: Partial<GameEngineConfig> = {}, options: Partial<GameRoomOptions> = {}) {
+    this.fairness = fairness;
+    this.engine = new GameEngine(fairness, config);
+    this.options = { ...DEFAULT_ROOM_OPTIONS, ...options };
+  }
+
+  /**
+   * Start the round loop and broadcast it
+   */
+  start(): void {
+    if (this.engine.isRunning()) return;
+
+    // The engine closes a candle just before emitting the tick that opens the
+    // next one; ship both in the same frame.
+    let closedCandle: CandleData | undefined;
+    this.unsubscribers = [
+      this.engine.on('roundStart', ({ roundNumber, commitment, multiplier }) => {
+        this.candleIndex = 0;
+        this.roundPath = [multiplier];
+        this.broadcast({ type: 'roundStart', roundNumber, commitment, multiplier, startedAt: Date.now() });
+      }),
+      this.engine.on('candleClosed', ({ candle }) => {
+        closedCandle = candle;
+      }),
+      this.engine.on('tick', ({ roundNumber, tick, multiplier, candle, candleIndex }) => {
+        this.candleIndex = candleIndex;
+        this.roundPath[tick] = multiplier;
+        this.broadcast({ type: 'tick', roundNumber, tick, multiplier, candle, candleIndex, closedCandle, sentAt: Date.now() });
+        closedCandle = undefined;
+      }),
+      this.engine.on('crash', ({ roundNumber, tick, crashPoint, revealed }) => {
+        this.broadcast({ type: 'crash', roundNumber, tick, crashPoint, revealed, sentAt: Date.now() });
+      }),
+      this.engine.on('countdown', ({ nextRoundNumber, secondsLeft }) => {
+        this.broadcast({ type: 'countdown', nextRoundNumber, secondsLeft });
+      }),
+    ];
+    this.engine.start();
+  }
+
+  /**
+   * Stop the round loop and disconnect everyone
+   */
+  stop(): void {
+    this.engine.stop();
+    for (const unsubscribe of this.unsubscribers) unsubscribe();
+    this.unsubscribers = [];
+    for (const player of this.players.values()) player.connection.close();
+    this.players.clear();
+  }
+
+  /**
+   * Register a new socket. It receives nothing until it sends `hello`.
+   * Returns the id to pass to `receive` and `disconnect`.
+   */
+  connect(connection: RoomConnection): string {
+    this.connectionCount++;
+    const id = `p${this.connectionCount}`;
+    this.players.set(id, { id, name: null, connection, lastChatAt: 0, position: null });
+    return id;
+  }
+
+  disconnect(playerId: string): void {
+    const player = this.players.get(playerId);
+    if (!player) return;
+    this.players.delete(playerId);
+    if (player.name !== null) console.log(`👋 ${player.name} left (${this.getPlayerCount()} online)`);
+  }
+
+  /**
+   * Players that have joined the room
+   */
+  getPlayerCount(): number {
+    return [...this.players.values()].filter(player => player.name !== null).length;
+  }
+
+  /**
+   * Handle one raw frame from a connection
+   */
+  receive(playerId: string, raw: string): void {
+    const player = this.players.get(playerId);
+    if (!player) return;
+
+    const result = decodeClientMessage(raw);
+    if (result.status === 'unsupported-version') {
+      this.sendError(player, 'unsupported-version', `Server speaks protocol v${PROTOCOL_VERSION}`);
+      player.connection.close();
+      this.disconnect(playerId);
+      return;
+    }
+    if (result.status === 'invalid') {
+      this.sendError(player, 'invalid-message', result.reason);
+      return;
+    }
+
+    const message = result.message;
+    if (message.type === 'hello') {
+      this.join(player, message.name);
+      return;
+    }
+    if (message.type === 'ping') {
+      this.send(player, { type: 'pong', clientTime: message.clientTime, serverTime: Date.now() });
+      return;
+    }
+    if (player.name === null) {
+      this.sendError(player, 'not-joined', 'Say hello before anything else');
+      return;
+    }
+    this.handle(player, player.name, message);
+  }
+
+  private join(player: Player, requestedName: string | undefined): void {
+    const name = requestedName?.trim().slice(0, this.options.maxNameLength) || `Player ${player.id.slice(1)}`;
+    const wasJoined = player.name !== null;
+    player.name = name;
+
+    const state = this.engine.getState();
+    this.send(player, {
+      type: 'welcome',
+      playerId: player.id,
+      name,
+      serverTime: Date.now(),
+      config: this.engine.config,
+      // The crash point stays on the server until the round is over
+      state: state.phase === 'crashed' ? state : { ...state, crashPoint: 0 },
+      candles: this.engine.getCandles(),
+      candleIndex: this.candleIndex,
+      commitment: this.fairness.getCommitment(),
+    });
+    if (!wasJoined) console.log(`🙋 ${name} joined (${this.getPlayerCount()} online)`);
+  }
+
+  private handle(player: Player, name: string, message: Exclude<ClientMessage, { type: 'hello' | 'ping' }>): void {
+    switch (message.type) {
+      case 'placeBet':
+        this.resolveBet(player, name, message);
+        return;
+      case 'cashOutRequest':
+        this.resolveCashOut(player, name, message);
+        return;
+      case 'chat': {
+        const text = message.text.trim().slice(0, this.options.maxChatLength);
+        if (!text) return;
+        const now = Date.now();
+        if (now - player.lastChatAt < this.options.chatIntervalMs) {
+          this.sendError(player, 'rate-limited', 'Slow down');
+          return;
+        }
+        player.lastChatAt = now;
+        this.broadcast({ type: 'chat', playerId: player.id, name, text, sentAt: now });
+        return;
+      }
+    }
+  }
+
+  /**
+   * Fill a bet at the current tick. The quoted tick and multiplier must be
+   * ones this round actually sent; they prove which round the player was
+   * watching but never set the entry price.
+   */
+  private resolveBet(player: Player, name: string, request: PlaceBetRequestMessage): void {
+    const { requestId, roundNumber, seenTick, multiplier: quoted, asset, amount } = request;
+    const state = this.engine.getState();
+    const reject = (reason: BetRejectReason) => this.send(player, { type: 'betRejected', requestId, reason });
+
+    if (roundNumber > state.roundNumber || seenTick > state.tickNumber || amount <= 0) {
+      reject('invalid-request');
+      return;
+    }
+    if (roundNumber < state.roundNumber || state.phase !== 'running') {
+      reject('round-crashed');
+      return;
+    }
+    const sent = this.roundPath[seenTick];
+    const position = player.position;
+    const otherAsset = position !== null && position.roundNumber === roundNumber && position.amount > 0 && position.asset !== asset;
+    if (sent === undefined || Math.abs(sent - quoted) > PRICE_EPSILON || otherAsset) {
+      reject('invalid-request');
+      return;
+    }
+
+    const multiplier = state.multiplier;
+    this.addToPosition(player, roundNumber, asset, amount, multiplier);
+    this.send(player, { type: 'betAccepted', requestId, roundNumber, seenTick, tick: state.tickNumber, multiplier, amount });
+    this.broadcast({ type: 'betPlaced', roundNumber, playerId: player.id, name, asset, amount, multiplier });
+  }
+
+  /**
+   * Fill a cash out at the current tick, or at the player's own cap if that
+   * is lower. Requests that arrive after the crash, or claim to have seen a
+   * tick not played yet, are rejected.
+   */
+  private resolveCashOut(player: Player, name: string, request: CashOutRequestMessage): void {
+    const { requestId, roundNumber, seenTick, asset, percentage, maxMultiplier } = request;
+    const state = this.engine.getState();
+    const reject = (reason: CashOutRejectReason) => this.send(player, { type: 'cashOutRejected', requestId, reason });
+
+    if (roundNumber > state.roundNumber || seenTick > state.tickNumber || percentage <= 0 || percentage > 100
+      || (maxMultiplier !== undefined && maxMultiplier <= 0)) {
+      reject('invalid-request');
+      return;
+    }
+    if (roundNumber < state.roundNumber || state.phase !== 'running') {
+      reject('round-crashed');
+      return;
+    }
+    const position = player.position;
+    if (!position || position.roundNumber !== roundNumber || position.asset !== asset || position.amount <= 0) {
+      reject('no-position');
+      return;
+    }
+
+    const amount = percentage === 100 ? position.amount : position.amount * (percentage / 100);
+    const multiplier = Math.min(state.multiplier, maxMultiplier ?? Number.POSITIVE_INFINITY);
+    const payout = amount * (multiplier / position.entryMultiplier);
+    this.reducePosition(player, roundNumber, amount);
+
+    this.send(player, { type: 'cashOutAccepted', requestId, roundNumber, seenTick, tick: state.tickNumber, multiplier, amount, payout });
+    this.broadcast({ type: 'cashedOut', roundNumber, playerId: player.id, name, asset, amount, multiplier, payout });
+  }
+
+  private addToPosition(player: Player, roundNumber: number, asset: AssetId, amount: number, multiplier: number): void {
+    const position = player.position;
+    if (position && position.roundNumber === roundNumber && position.asset === asset && position.amount > 0) {
+      position.entryMultiplier = weightedEntry(position.amount, position.entryMultiplier, amount, multiplier);
+      position.amount += amount;
+      return;
+    }
+    player.position = { roundNumber, asset, amount, entryMultiplier: multiplier };
+  }
+
+  private reducePosition(player: Player, roundNumber: number, amount: number): void {
+    const position = player.position;
+    if (!position || position.roundNumber !== roundNumber) return;
+    // Treat float dust left by percentage sales as closed
+    const remaining = position.amount - amount;
+    position.amount = remaining > 1e-9 ? remaining : 0;
+  }
+
+  private send(player: Player, message: ServerMessage): void {
+    player.connection.send(encodeMessage(message));
+  }
+
+  private sendError(player: Player, code: ProtocolErrorCode, message: string): void {
+    this.send(player, { type: 'error', code, message });
+  }
+
+  private broadcast(message: ServerMessage): void {
+    const frame = encodeMessage(message);
+    for (const player of this.players.values()) {
+      if (player.name !== null) player.connection.send(frame);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Round Ledger
+ * Turns the trades of a finished round into an immutable settlement record
+ * with realized PnL, fees and whether the crash force-closed the position.
+ */
+
+import { type AssetId, LEGACY_PAPER_ASSET, LEGACY_REAL_ASSET } from './assets';
+import type {
+  RoundSettlement,
+  RoundTradeLog,
+  SettlementMode,
+  SettlementOutcome,
+  TradeAction
+} from '../context/BettingContext.types';
+
+/**
+ * Average entry after adding `addAmount` at `addMultiplier`. Each buy holds
+ * amount / multiplier units, so the entry is cost basis over units and the
+ * position's value stays amount * multiplier / entry.
+ */
+export const weightedEntry = (amount: number, entry: number, addAmount: number, addMultiplier: number): number =>
+  (amount + addAmount) / (amount / entry + addAmount / addMultiplier);
+
+const settlementMode = (trades: readonly TradeAction[]): SettlementMode => {
+  const paper = trades.filter(trade => trade.isPaper).length;
+  if (paper === 0) return 'real';
+  return paper === trades.length ? 'paper' : 'mixed';
+};
+
+// A round's trades share one asset - it cannot be switched mid-round
+const settlementAsset = (trades: readonly TradeAction[]): AssetId =>
+  trades.find(trade => trade.asset)?.asset ??
+  (trades.length > 0 && trades.every(trade => trade.isPaper) ? LEGACY_PAPER_ASSET : LEGACY_REAL_ASSET);
+
+/**
+ * Freeze a settlement and its trades so ledger entries cannot be edited
+ */
+export const freezeSettlement = (settlement: RoundSettlement): RoundSettlement =>
+  Object.freeze({
+    ...settlement,
+    trades: Object.freeze(settlement.trades.map(trade => Object.freeze({ ...trade }))),
+  });
+
+/**
+ * Settle a round. Sells pay amount * multiplier / entry at the running
+ * average entry, except crash closes which pay nothing - the stake was
+ * already taken from the balance when the bet was placed.
+ */
+export const settleRound = (log: RoundTradeLog): RoundSettlement => {
+  let position = 0;
+  let entry = 0;
+  let totalBought = 0;
+  let boughtUnits = 0;
+  let totalPaidOut = 0;
+  let soldAmount = 0;
+  let soldMultiplierSum = 0;
+  let fees = 0;
+  let forceClosed = false;
+
+  for (const trade of log.trades) {
+    fees += trade.fee ?? 0;
+
+    if (trade.type === 'buy') {
+      entry = position > 0 ? weightedEntry(position, entry, trade.amount, trade.multiplier) : trade.multiplier;
+      position += trade.amount;
+      totalBought += trade.amount;
+      boughtUnits += trade.amount / trade.multiplier;
+      continue;
+    }
+
+    if (trade.reason === 'crash') {
+      forceClosed = true;
+    } else if (entry > 0) {
+      totalPaidOut += trade.amount * trade.multiplier / entry;
+      soldAmount += trade.amount;
+      soldMultiplierSum += trade.amount * trade.multiplier;
+    }
+
+    position = Math.max(0, position - trade.amount);
+    if (position === 0) entry = 0;
+  }
+
+  const realizedPnL = totalPaidOut - totalBought - fees;
+
+  return freezeSettlement({
+    id: log.serverSeedHash || `legacy-${log.startedAt}-${log.roundNumber}`,
+    roundNumber: log.roundNumber,
+    nonce: log.nonce,
+    serverSeedHash: log.serverSeedHash,
+    crashPoint: log.crashPoint,
+    startedAt: log.startedAt,
+    settledAt: log.endedAt,
+    mode: settlementMode(log.trades),
+    asset: settlementAsset(log.trades),
+    trades: log.trades,
+    totalBought,
+    totalPaidOut,
+    fees,
+    realizedPnL,
+    averageEntry: boughtUnits > 0 ? totalBought / boughtUnits : 0,
+    averageExit: soldAmount > 0 ? soldMultiplierSum / soldAmount : 0,
+    forceClosed,
+    outcome: forceClosed ? 'crashed' : realizedPnL > 0 ? 'won' : 'lost',
+  });
+};
+
+export interface LedgerTotals {
+  rounds: number;
+  outcomes: Record<SettlementOutcome, number>;
+  totalBought: number;
+  totalPaidOut: number;
+  fees: number;
+  realizedPnL: number;
+}
+
+/**
+ * Sum a list of settlements
+ */
+export const summarizeSettlements = (settlements: readonly RoundSettlement[]): LedgerTotals => {
+  const totals: LedgerTotals = {
+    rounds: settlements.length,
+    outcomes: { won: 0, lost: 0, crashed: 0 },
+    totalBought: 0,
+    totalPaidOut: 0,
+    fees: 0,
+    realizedPnL: 0,
+  };
+  for (const settlement of settlements) {
+    totals.outcomes[settlement.outcome]++;
+    totals.totalBought += settlement.totalBought;
+    totals.totalPaidOut += settlement.totalPaidOut;
+    totals.fees += settlement.fees;
+    totals.realizedPnL += settlement.realizedPnL;
+  }
+  return totals;
+};
+
+export interface LedgerFilters {
+  from?: number;                 // Settled at or after (ms timestamp)
+  to?: number;                   // Settled before (ms timestamp)
+  mode?: 'paper' | 'real';       // Mixed rounds match both
+  asset?: AssetId;
+  outcome?: SettlementOutcome;
+  minCrashPoint?: number;
+  maxCrashPoint?: number;
+}
+
+/**
+ * Settlements matching every set filter
+ */
+export const filterSettlements = (
+  settlements: readonly RoundSettlement[],
+  filters: LedgerFilters,
+): RoundSettlement[] =>
+  settlements.filter(settlement =>
+    (filters.from === undefined || settlement.settledAt >= filters.from) &&
+    (filters.to === undefined || settlement.settledAt < filters.to) &&
+    (filters.mode === undefined || settlement.mode === filters.mode || settlement.mode === 'mixed') &&
+    (filters.asset === undefined || settlement.asset === filters.asset) &&
+    (filters.outcome === undefined || settlement.outcome === filters.outcome) &&
+    (filters.minCrashPoint === undefined || settlement.crashPoint >= filters.minCrashPoint) &&
+    (filters.maxCrashPoint === undefined || settlement.crashPoint <= filters.maxCrashPoint)
+  );
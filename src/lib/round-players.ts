@@ -0,0 +1,102 @@
+/**
+ * Round Players
+ * Everyone who bet in the current round - stake, average entry, sales and
+ * whether they got out before the crash - folded from the round's bet and
+ * cash-out events.
+ */
+
+import type { AssetId } from './assets';
+import { weightedEntry } from './round-ledger';
+
+export interface RoundPlayerEvent {
+  playerId: string;
+  name: string;
+  asset: AssetId;
+  type: 'bet' | 'cashOut';
+  amount: number;                // Stake bought or sold
+  multiplier: number;
+  payout?: number;               // Cash outs only; priced from the entry when missing
+}
+
+export type RoundPlayerStatus = 'in' | 'cashed-out' | 'busted';
+
+export interface RoundPlayer {
+  playerId: string;
+  name: string;
+  asset: AssetId;
+  staked: number;                // Everything bet this round
+  openAmount: number;            // Stake still riding
+  entryMultiplier: number;
+  exitMultiplier: number | null; // Multiplier of the latest sale
+  realizedPnL: number;
+  status: RoundPlayerStatus;
+}
+
+// Float dust left by percentage sales counts as closed
+const DUST = 1e-9;
+
+/**
+ * Fold the round's events into one row per player, in order of first bet.
+ * After the crash everyone with stake still riding is busted.
+ */
+export const buildRoundPlayers = (events: readonly RoundPlayerEvent[], crashed: boolean): RoundPlayer[] => {
+  const players = new Map<string, RoundPlayer>();
+
+  for (const event of events) {
+    const player = players.get(event.playerId);
+
+    if (event.type === 'bet') {
+      if (!player) {
+        players.set(event.playerId, {
+          playerId: event.playerId,
+          name: event.name,
+          asset: event.asset,
+          staked: event.amount,
+          openAmount: event.amount,
+          entryMultiplier: event.multiplier,
+          exitMultiplier: null,
+          realizedPnL: 0,
+          status: 'in',
+        });
+        continue;
+      }
+      player.entryMultiplier = player.openAmount > DUST
+        ? weightedEntry(player.openAmount, player.entryMultiplier, event.amount, event.multiplier)
+        : event.multiplier;
+      player.staked += event.amount;
+      player.openAmount += event.amount;
+      player.status = 'in';
+      continue;
+    }
+
+    // Sales without a known position (e.g. we joined mid-round) are skipped
+    if (!player || player.openAmount <= DUST) continue;
+    const amount = Math.min(event.amount, player.openAmount);
+    const payout = event.payout ?? amount * (event.multiplier / player.entryMultiplier);
+    player.realizedPnL += payout - amount;
+    player.openAmount -= amount;
+    player.exitMultiplier = event.multiplier;
+    if (player.openAmount <= DUST) {
+      player.openAmount = 0;
+      player.status = 'cashed-out';
+    }
+  }
+
+  const rows = [...players.values()];
+  if (!crashed) return rows;
+  return rows.map(player => player.status === 'in' ? { ...player, status: 'busted' } : player);
+};
+
+/**
+ * Realized plus unrealized PnL at `multiplier`. Busted stake is lost in full.
+ */
+export const getRoundPlayerPnL = (player: RoundPlayer, multiplier: number): number => {
+  switch (player.status) {
+    case 'in':
+      return player.realizedPnL + player.openAmount * (multiplier / player.entryMultiplier - 1);
+    case 'busted':
+      return player.realizedPnL - player.openAmount;
+    case 'cashed-out':
+      return player.realizedPnL;
+  }
+};
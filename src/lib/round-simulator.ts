@@ -0,0 +1,225 @@
+/**
+ * Round Simulator
+ * Headless Monte-Carlo runner for economics tuning. Every round goes through
+ * the real pipeline: fairness seeds → distribution → seeded price path.
+ */
+
+import { DEFAULT_DISTRIBUTION, getDistributionPreset, getDistributionStats } from './crash-distribution';
+import { deriveCrashPoint, derivePathSeed } from './fairness';
+import { DEFAULT_ENGINE_CONFIG } from './game-engine';
+import { createPricePath, DEFAULT_TICK_PARAMS, MAX_REPLAY_TICKS, type TickParams } from './price-path';
+import { sha256Hex } from './sha256';
+
+export interface RoundSimulationOptions {
+  rounds: number;
+  seed: string;                  // Master seed; round i uses sha256(`${seed}:${i}`) as its server seed
+  distribution?: string;         // Preset name
+  tickParams?: TickParams;
+  tickMs?: number;               // Engine tick length, for converting ticks to seconds
+  maxTicks?: number;             // Per-round cap on simulated ticks
+  simulatePaths?: boolean;       // false = crash points only (much faster, no durations)
+  pathRounds?: number;           // Only the first N rounds get a price path; the rest are crash points only
+  targets?: number[];            // Cash-out targets to evaluate
+  crashBuckets?: number[];       // Histogram edges in x
+  durationBuckets?: number[];    // Histogram edges in seconds
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface HistogramBucket {
+  min: number;
+  max: number;                   // Infinity for the open last bucket (null in JSON)
+  count: number;
+  share: number;
+}
+
+export interface TargetResult {
+  target: number;
+  reachProbability: number;      // Share of rounds whose path (or crash point) reached the target
+  rtp: number;                   // Return per unit staked when cashing out at the target
+  expectedValue: number;         // rtp - 1
+  houseEdge: number;             // 1 - rtp
+}
+
+// Crashed rounds only: a capped round has no duration, just a lower bound
+export interface DurationStats {
+  completedRounds: number;       // Rounds the stats below are computed over
+  meanSeconds: number;
+  p50Seconds: number;
+  p90Seconds: number;
+  p99Seconds: number;
+  maxSeconds: number;
+  truncatedRounds: number;       // Rounds that hit maxTicks before crashing
+}
+
+export interface RoundSimulationReport {
+  rounds: number;
+  seed: string;
+  distribution: string;
+  tickParams: TickParams;
+  tickMs: number;
+  maxTicks: number;
+  pathRounds: number;            // Rounds with a price path; targets and durations cover only these when > 0
+  crashPoints: {
+    mean: number;
+    median: number;
+    below1x: number;
+    theoreticalHouseEdge: number;   // From the distribution table alone
+    histogram: HistogramBucket[];
+  };
+  durations: (DurationStats & { histogram: HistogramBucket[] }) | null;
+  targets: TargetResult[];
+  houseEdge: number;             // Edge against the best simulated target
+  bestTarget: number;
+}
+
+export const DEFAULT_TARGETS = [1.1, 1.25, 1.5, 2, 3, 5, 10, 20];
+export const DEFAULT_CRASH_BUCKETS = [0, 0.2, 0.5, 1, 1.5, 2, 3, 5, 10, 25];
+export const DEFAULT_DURATION_BUCKETS = [0, 1, 2, 5, 10, 30, 60, 120, 300, 600];
+// Same cap as fairness replays. Paths have no drift by default, so the share
+// of capped rounds only shrinks with the square root of the cap.
+export const DEFAULT_MAX_TICKS = MAX_REPLAY_TICKS;
+// A path costs ~17ms per round at the default cap, so large runs sample them
+export const DEFAULT_PATH_ROUNDS = 5_000;
+
+const PROGRESS_STEPS = 20;
+
+const buildHistogram = (values: Float64Array, edges: number[]): HistogramBucket[] => {
+  const buckets = edges.map((min, i) => ({
+    min,
+    max: i + 1 < edges.length ? edges[i + 1] : Number.POSITIVE_INFINITY,
+    count: 0,
+    share: 0,
+  }));
+
+  for (const value of values) {
+    // Last bucket whose min is <= value; values below the first edge go to the first bucket
+    let index = 0;
+    while (index + 1 < buckets.length && value >= buckets[index + 1].min) index++;
+    buckets[index].count++;
+  }
+
+  for (const bucket of buckets) {
+    bucket.share = values.length > 0 ? bucket.count / values.length : 0;
+  }
+  return buckets;
+};
+
+const percentile = (sorted: Float64Array, p: number): number =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+/**
+ * Run the simulation and aggregate its report
+ */
+export const simulateRounds = (options: RoundSimulationOptions): RoundSimulationReport => {
+  const {
+    rounds,
+    seed,
+    distribution = DEFAULT_DISTRIBUTION,
+    tickParams = DEFAULT_TICK_PARAMS,
+    tickMs = DEFAULT_ENGINE_CONFIG.tickMs,
+    maxTicks = DEFAULT_MAX_TICKS,
+    simulatePaths = true,
+    pathRounds: pathRoundsOption = DEFAULT_PATH_ROUNDS,
+    targets = DEFAULT_TARGETS,
+    crashBuckets = DEFAULT_CRASH_BUCKETS,
+    durationBuckets = DEFAULT_DURATION_BUCKETS,
+    onProgress,
+  } = options;
+
+  // Fail fast on an unknown preset instead of on the first round
+  const table = getDistributionPreset(distribution);
+  const crashPoints = new Float64Array(rounds);
+  const durations: number[] = [];
+  const reached = new Array<number>(targets.length).fill(0);
+  const clientSeed = 'simulation';
+  const progressEvery = Math.max(1, Math.floor(rounds / PROGRESS_STEPS));
+  let truncatedRounds = 0;
+  const pathRounds = simulatePaths ? Math.min(rounds, pathRoundsOption) : 0;
+  // With paths, target stats come from the sampled rounds only
+  const targetRounds = pathRounds > 0 ? pathRounds : rounds;
+
+  for (let i = 0; i < rounds; i++) {
+    const serverSeed = sha256Hex(`${seed}:${i}`);
+    const crashPoint = deriveCrashPoint(serverSeed, clientSeed, i, distribution);
+    crashPoints[i] = crashPoint;
+
+    // Without paths a target counts as reached when the crash point clears
+    // it. With paths only prices shown before the crash tick are cashable, and
+    // sub-1x rounds can still rise above 1x before they fall. A capped 1x+
+    // round must still climb through every target up to its crash point.
+    let peak = Math.max(1, crashPoint);
+    const withPath = i < pathRounds;
+    if (withPath) {
+      const step = createPricePath(derivePathSeed(serverSeed, clientSeed, i), crashPoint, tickParams);
+      let ticks = 0;
+      let crashed = false;
+      peak = 1;
+      while (!crashed && ticks < maxTicks) {
+        const next = step();
+        crashed = next.crashed;
+        if (!crashed) peak = Math.max(peak, next.price);
+        ticks++;
+      }
+      if (crashed) {
+        durations.push((ticks * tickMs) / 1000);
+      } else {
+        truncatedRounds++;
+        peak = Math.max(peak, crashPoint);
+      }
+    }
+
+    if (pathRounds === 0 || withPath) {
+      for (let t = 0; t < targets.length; t++) {
+        if (peak >= targets[t]) reached[t]++;
+      }
+    }
+
+    if (onProgress && (i + 1) % progressEvery === 0) onProgress(i + 1, rounds);
+  }
+
+  const targetResults: TargetResult[] = targets.map((target, t) => {
+    const reachProbability = targetRounds > 0 ? reached[t] / targetRounds : 0;
+    const rtp = reachProbability * target;
+    return { target, reachProbability, rtp, expectedValue: rtp - 1, houseEdge: 1 - rtp };
+  });
+  const best = targetResults.reduce((a, b) => (b.rtp > a.rtp ? b : a), targetResults[0]);
+
+  const sortedCrashPoints = Float64Array.from(crashPoints).sort();
+  const crashSum = crashPoints.reduce((sum, value) => sum + value, 0);
+
+  let durationReport: RoundSimulationReport['durations'] = null;
+  if (pathRounds > 0) {
+    const sortedDurations = Float64Array.from(durations).sort();
+    durationReport = {
+      completedRounds: durations.length,
+      meanSeconds: durations.length > 0 ? durations.reduce((sum, value) => sum + value, 0) / durations.length : 0,
+      p50Seconds: percentile(sortedDurations, 0.5),
+      p90Seconds: percentile(sortedDurations, 0.9),
+      p99Seconds: percentile(sortedDurations, 0.99),
+      maxSeconds: sortedDurations.length > 0 ? sortedDurations[sortedDurations.length - 1] : 0,
+      truncatedRounds,
+      histogram: buildHistogram(sortedDurations, durationBuckets),
+    };
+  }
+
+  return {
+    rounds,
+    seed,
+    distribution,
+    tickParams,
+    tickMs,
+    maxTicks,
+    pathRounds,
+    crashPoints: {
+      mean: rounds > 0 ? crashSum / rounds : 0,
+      median: percentile(sortedCrashPoints, 0.5),
+      below1x: rounds > 0 ? crashPoints.filter(value => value < 1).length / rounds : 0,
+      theoreticalHouseEdge: getDistributionStats(table).houseEdge,
+      histogram: buildHistogram(crashPoints, crashBuckets),
+    },
+    durations: durationReport,
+    targets: targetResults,
+    houseEdge: best ? best.houseEdge : 0,
+    bestTarget: best ? best.target : 0,
+  };
+};
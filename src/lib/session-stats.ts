@@ -0,0 +1,104 @@
+/**
+ * Session Statistics
+ * Performance figures and an equity curve computed from settled rounds
+ */
+
+import type { RoundSettlement } from '../context/BettingContext.types';
+
+export interface EquityPoint {
+  round: number;                 // 1-based position in the series
+  settledAt: number;
+  equity: number;                // Cumulative realized PnL after this round
+}
+
+export interface SessionStats {
+  roundsPlayed: number;
+  wins: number;
+  losses: number;
+  winRate: number;               // 0-1, rounds with positive realized PnL
+  averageEntry: number;          // Stake-weighted entry across every buy
+  averageExit: number;           // Amount-weighted multiplier across paid sells
+  biggestWin: number;
+  biggestLoss: number;           // Most negative round PnL (0 if none lost)
+  longestWinStreak: number;
+  longestLossStreak: number;
+  totalStaked: number;
+  realizedPnL: number;
+  roi: number;                   // realizedPnL / totalStaked
+  maxDrawdown: number;           // Largest peak-to-trough fall of the equity curve
+  equityCurve: EquityPoint[];
+}
+
+/**
+ * Compute stats for settlements ordered oldest first
+ */
+export const computeSessionStats = (settlements: readonly RoundSettlement[]): SessionStats => {
+  let wins = 0;
+  let losses = 0;
+  let totalStaked = 0;
+  let boughtUnits = 0;
+  let soldAmount = 0;
+  let soldMultiplierSum = 0;
+  let biggestWin = 0;
+  let biggestLoss = 0;
+  let winStreak = 0;
+  let lossStreak = 0;
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  const equityCurve: EquityPoint[] = [];
+
+  for (const [index, settlement] of settlements.entries()) {
+    const pnl = settlement.realizedPnL;
+
+    if (pnl > 0) {
+      wins++;
+      winStreak++;
+      lossStreak = 0;
+    } else {
+      losses++;
+      lossStreak++;
+      winStreak = 0;
+    }
+    longestWinStreak = Math.max(longestWinStreak, winStreak);
+    longestLossStreak = Math.max(longestLossStreak, lossStreak);
+    biggestWin = Math.max(biggestWin, pnl);
+    biggestLoss = Math.min(biggestLoss, pnl);
+
+    for (const trade of settlement.trades) {
+      if (trade.type === 'buy') {
+        totalStaked += trade.amount;
+        boughtUnits += trade.amount / trade.multiplier;
+      } else if (trade.reason !== 'crash') {
+        soldAmount += trade.amount;
+        soldMultiplierSum += trade.amount * trade.multiplier;
+      }
+    }
+
+    equity += pnl;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    equityCurve.push({ round: index + 1, settledAt: settlement.settledAt, equity });
+  }
+
+  const roundsPlayed = settlements.length;
+  return {
+    roundsPlayed,
+    wins,
+    losses,
+    winRate: roundsPlayed > 0 ? wins / roundsPlayed : 0,
+    averageEntry: boughtUnits > 0 ? totalStaked / boughtUnits : 0,
+    averageExit: soldAmount > 0 ? soldMultiplierSum / soldAmount : 0,
+    biggestWin,
+    biggestLoss,
+    longestWinStreak,
+    longestLossStreak,
+    totalStaked,
+    realizedPnL: equity,
+    roi: totalStaked > 0 ? equity / totalStaked : 0,
+    maxDrawdown,
+    equityCurve,
+  };
+};
@@ -0,0 +1,151 @@
+/**
+ * Simulated Transactions
+ * Local TransactionBackend that confirms transactions on a timer. Each
+ * transaction gains one confirmation per interval until it reaches the
+ * required count; a configurable share fail partway instead, so the UI's
+ * failure paths can be exercised without a network.
+ */
+
+import { ASSET_IDS, type AssetId } from './assets';
+import { encodeBase58 } from './base58';
+import { TypedEventEmitter } from './event-emitter';
+import { sha256Bytes } from './sha256';
+import type {
+  TransactionBackend,
+  TransactionEvents,
+  WalletTransaction,
+  WithdrawalPolicy
+} from './transaction-backend';
+import type { WalletTransfer } from './wallet-adapter';
+
+export interface SimulatedTransactionOptions {
+  requiredConfirmations?: number;
+  confirmationIntervalMs?: number;
+  failureRate?: number;          // 0-1 chance a transaction fails before confirming
+  random?: () => number;         // Injectable for deterministic tests
+  policies?: Partial<Record<AssetId, WithdrawalPolicy>>;
+}
+
+export const DEFAULT_WITHDRAWAL_POLICIES: Partial<Record<AssetId, WithdrawalPolicy>> = {
+  SOL: { minAmount: 0.01, maxAmount: 500, fee: 0.000005 },
+  USDC: { minAmount: 1, maxAmount: 50000, fee: 0.5 },
+};
+
+// Paper assets never leave the game
+const NO_WITHDRAWALS: WithdrawalPolicy = { minAmount: 0, maxAmount: 0, fee: 0 };
+
+const DEFAULT_CONFIRMATIONS = 3;
+const DEFAULT_INTERVAL_MS = 1500;
+const DEFAULT_FAILURE_RATE = 0.05;
+
+const FAILURE_REASONS = [
+  'Transaction expired before it was confirmed',
+  'Network rejected the transaction',
+];
+
+export class SimulatedTransactionBackend extends TypedEventEmitter<TransactionEvents> implements TransactionBackend {
+  readonly name = 'Simulated';
+
+  private readonly requiredConfirmations: number;
+  private readonly intervalMs: number;
+  private readonly failureRate: number;
+  private readonly random: () => number;
+  private readonly policies: Partial<Record<AssetId, WithdrawalPolicy>>;
+  private readonly depositAddresses: Record<AssetId, string>;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private count = 0;
+
+  constructor(options: SimulatedTransactionOptions = {}) {
+    super();
+    this.requiredConfirmations = options.requiredConfirmations ?? DEFAULT_CONFIRMATIONS;
+    this.intervalMs = options.confirmationIntervalMs ?? DEFAULT_INTERVAL_MS;
+    this.failureRate = options.failureRate ?? DEFAULT_FAILURE_RATE;
+    this.random = options.random ?? Math.random;
+    this.policies = { ...DEFAULT_WITHDRAWAL_POLICIES, ...options.policies };
+    this.depositAddresses = Object.fromEntries(
+      ASSET_IDS.map(id => [id, encodeBase58(sha256Bytes(new TextEncoder().encode(`house-deposit:${id}`)))])
+    ) as Record<AssetId, string>;
+  }
+
+  getDepositAddress(asset: AssetId): string {
+    return this.depositAddresses[asset];
+  }
+
+  getWithdrawalPolicy(asset: AssetId): WithdrawalPolicy {
+    return this.policies[asset] ?? NO_WITHDRAWALS;
+  }
+
+  trackDeposit(transfer: WalletTransfer): WalletTransaction {
+    return this.start({
+      type: 'deposit',
+      asset: transfer.asset,
+      amount: transfer.amount,
+      fee: 0,
+      address: transfer.address,
+    });
+  }
+
+  submitWithdrawal(asset: AssetId, amount: number, address: string): WalletTransaction {
+    return this.start({
+      type: 'withdraw',
+      asset,
+      amount,
+      fee: this.getWithdrawalPolicy(asset).fee,
+      address,
+    });
+  }
+
+  /**
+   * Cancel every scheduled confirmation
+   */
+  dispose(): void {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+    this.removeAllListeners();
+  }
+
+  private start(details: Pick<WalletTransaction, 'type' | 'asset' | 'amount' | 'fee' | 'address'>): WalletTransaction {
+    this.count++;
+    const now = Date.now();
+    const transaction: WalletTransaction = {
+      ...details,
+      id: `sim-${details.type}-${this.count}-${now}`,
+      status: 'pending',
+      confirmations: 0,
+      requiredConfirmations: this.requiredConfirmations,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Decide up front whether and when it fails, so the run is reproducible
+    // with a seeded random source
+    const failsAt = this.random() < this.failureRate
+      ? Math.floor(this.random() * this.requiredConfirmations)
+      : null;
+    this.schedule(transaction, failsAt);
+    return transaction;
+  }
+
+  private schedule(transaction: WalletTransaction, failsAt: number | null) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+
+      if (failsAt !== null && transaction.confirmations === failsAt) {
+        const reason = FAILURE_REASONS[Math.floor(this.random() * FAILURE_REASONS.length)];
+        this.emit('update', { ...transaction, status: 'failed', failureReason: reason, updatedAt: Date.now() });
+        return;
+      }
+
+      const confirmations = transaction.confirmations + 1;
+      const next: WalletTransaction = {
+        ...transaction,
+        confirmations,
+        status: confirmations >= transaction.requiredConfirmations ? 'confirmed' : 'pending',
+        updatedAt: Date.now(),
+      };
+      this.emit('update', next);
+      if (next.status === 'pending') this.schedule(next, failsAt);
+    }, this.intervalMs);
+    this.timers.add(timer);
+  }
+}
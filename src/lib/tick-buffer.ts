@@ -0,0 +1,125 @@
+/**
+ * Tick Buffer
+ * Jitter buffer for ticks streamed over the network. Ticks are held by
+ * sequence number and released at their server timestamp plus a playback
+ * delay, so uneven arrival turns back into the server's even cadence. Ticks
+ * that never arrive are filled in by interpolating between their neighbours.
+ */
+
+export interface TimedTick<T> {
+  seq: number;                   // Tick number within the round
+  sentAt: number;                // Server timestamp
+  multiplier: number;
+  payload: T | null;             // Null for ticks synthesized to fill a gap
+}
+
+export interface TickBufferStats {
+  depth: number;                 // Ticks waiting to be played
+  received: number;
+  dropped: number;               // Duplicates and ticks that arrived after their slot was played
+  filled: number;                // Gap ticks synthesized
+  fastForwarded: number;         // Ticks played early because the buffer overflowed
+}
+
+export class TickBuffer<T> {
+  private pending = new Map<number, TimedTick<T>>();
+  private lastSeq = 0;
+  private lastSentAt = 0;
+  private lastMultiplier = 0;
+  private maxDepth: number;
+  private stats: Omit<TickBufferStats, 'depth'> = { received: 0, dropped: 0, filled: 0, fastForwarded: 0 };
+
+  constructor(maxDepth = 64) {
+    this.maxDepth = maxDepth;
+  }
+
+  /**
+   * Drop everything buffered and continue after the given tick, e.g. at a
+   * round start or after joining from a snapshot
+   */
+  reset(seq: number, sentAt: number, multiplier: number): void {
+    this.pending.clear();
+    this.lastSeq = seq;
+    this.lastSentAt = sentAt;
+    this.lastMultiplier = multiplier;
+  }
+
+  /**
+   * Buffer a received tick. Returns false if it was dropped.
+   */
+  push(seq: number, sentAt: number, multiplier: number, payload: T): boolean {
+    this.stats.received++;
+    if (seq <= this.lastSeq || this.pending.has(seq)) {
+      this.stats.dropped++;
+      return false;
+    }
+    this.pending.set(seq, { seq, sentAt, multiplier, payload });
+    return true;
+  }
+
+  /**
+   * Release every tick due at `playbackTime` (server clock) in sequence
+   * order, synthesizing any that are missing once their slot has passed
+   */
+  drain(playbackTime: number): TimedTick<T>[] {
+    const released: TimedTick<T>[] = [];
+
+    while (this.pending.size > 0) {
+      const next = this.earliest();
+      const overflowing = this.pending.size > this.maxDepth;
+
+      if (next.seq === this.lastSeq + 1) {
+        if (next.sentAt > playbackTime && !overflowing) break;
+        if (next.sentAt > playbackTime) this.stats.fastForwarded++;
+        this.pending.delete(next.seq);
+        released.push(this.advance(next));
+        continue;
+      }
+
+      // Missing tick(s) before `next`: wait for the slot to pass, then fill it
+      const fraction = 1 / (next.seq - this.lastSeq);
+      const slotAt = this.lastSentAt + (next.sentAt - this.lastSentAt) * fraction;
+      if (slotAt > playbackTime && !overflowing) break;
+
+      this.stats.filled++;
+      released.push(this.advance({
+        seq: this.lastSeq + 1,
+        sentAt: slotAt,
+        multiplier: this.lastMultiplier + (next.multiplier - this.lastMultiplier) * fraction,
+        payload: null,
+      }));
+    }
+
+    return released;
+  }
+
+  /**
+   * Newest buffered server timestamp, or null when empty
+   */
+  getNewestSentAt(): number | null {
+    let newest: number | null = null;
+    for (const tick of this.pending.values()) {
+      if (newest === null || tick.sentAt > newest) newest = tick.sentAt;
+    }
+    return newest;
+  }
+
+  getStats(): TickBufferStats {
+    return { depth: this.pending.size, ...this.stats };
+  }
+
+  private earliest(): TimedTick<T> {
+    let earliest: TimedTick<T> | null = null;
+    for (const tick of this.pending.values()) {
+      if (earliest === null || tick.seq < earliest.seq) earliest = tick;
+    }
+    return earliest as TimedTick<T>;
+  }
+
+  private advance(tick: TimedTick<T>): TimedTick<T> {
+    this.lastSeq = tick.seq;
+    this.lastSentAt = tick.sentAt;
+    this.lastMultiplier = tick.multiplier;
+    return tick;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Transaction Backend
+ * Moves funds between the chain and the game balance. Deposits sent from
+ * the player's wallet and withdrawals to any address are tracked as
+ * transactions that go pending → confirmed or failed. Implementations talk
+ * to a real payment service or, locally, simulated-transactions.ts.
+ */
+
+import type { AssetId } from './assets';
+import { isValidAddress, type WalletTransfer, type WalletTransferType } from './wallet-adapter';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface WalletTransaction {
+  id: string;
+  type: WalletTransferType;
+  asset: AssetId;
+  amount: number;                // Credited on deposit / received by the address on withdrawal
+  fee: number;                   // Network fee, charged on top of withdrawals
+  address: string;               // Sender of a deposit, recipient of a withdrawal
+  status: TransactionStatus;
+  confirmations: number;
+  requiredConfirmations: number;
+  createdAt: number;
+  updatedAt: number;
+  failureReason?: string;
+}
+
+export interface WithdrawalPolicy {
+  minAmount: number;
+  maxAmount: number;
+  fee: number;                   // Flat network fee in the withdrawn asset
+}
+
+export interface TransactionEvents {
+  update: WalletTransaction;     // Every status or confirmation change
+}
+
+export interface TransactionBackend {
+  readonly name: string;
+
+  /** House address players send deposits to */
+  getDepositAddress(asset: AssetId): string;
+  getWithdrawalPolicy(asset: AssetId): WithdrawalPolicy;
+
+  /** Start confirming a deposit the wallet has already sent */
+  trackDeposit(transfer: WalletTransfer): WalletTransaction;
+  /** Broadcast a withdrawal; the caller has already held amount + fee */
+  submitWithdrawal(asset: AssetId, amount: number, address: string): WalletTransaction;
+
+  on<K extends keyof TransactionEvents>(event: K, listener: (payload: TransactionEvents[K]) => void): () => void;
+}
+
+export type WithdrawalRejection =
+  | { status: 'invalid-address' }
+  | { status: 'invalid-amount' }
+  | { status: 'below-minimum'; minAmount: number }
+  | { status: 'above-maximum'; maxAmount: number }
+  | { status: 'insufficient-balance'; available: number };   // Balance left after the fee
+
+/**
+ * First problem with a withdrawal request, or null if it can be submitted
+ */
+export const checkWithdrawal = (
+  amount: number,
+  address: string,
+  balance: number,
+  policy: WithdrawalPolicy,
+): WithdrawalRejection | null => {
+  if (!isValidAddress(address.trim())) return { status: 'invalid-address' };
+  if (!Number.isFinite(amount) || amount <= 0) return { status: 'invalid-amount' };
+  if (amount < policy.minAmount) return { status: 'below-minimum', minAmount: policy.minAmount };
+  if (amount > policy.maxAmount) return { status: 'above-maximum', maxAmount: policy.maxAmount };
+  if (amount + policy.fee > balance) {
+    return { status: 'insufficient-balance', available: Math.max(0, balance - policy.fee) };
+  }
+  return null;
+};
+
+/**
+ * Player-facing text for a withdrawal rejection
+ */
+export const describeWithdrawalRejection = (rejection: WithdrawalRejection, asset: AssetId): string => {
+  switch (rejection.status) {
+    case 'invalid-address':
+      return 'Enter a valid Solana address';
+    case 'invalid-amount':
+      return 'Enter an amount above 0';
+    case 'below-minimum':
+      return `Minimum withdrawal is ${rejection.minAmount} ${asset}`;
+    case 'above-maximum':
+      return `Maximum withdrawal is ${rejection.maxAmount} ${asset}`;
+    case 'insufficient-balance':
+      return `You can withdraw up to ${rejection.available} ${asset} after fees`;
+  }
+};
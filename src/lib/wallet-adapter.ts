@@ -0,0 +1,92 @@
+/**
+ * Wallet Adapter
+ * What the game needs from a wallet: connecting, reading on-chain balances,
+ * signing messages and moving funds between the wallet and the game
+ * balance. Implementations wrap a real wallet or, for development and
+ * tests, the local mock in mock-wallet.ts.
+ */
+
+import type { AssetId } from './assets';
+import { decodeBase58 } from './base58';
+
+export type WalletStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface WalletAccount {
+  address: string;
+  label: string;                 // Shown next to the address, e.g. the wallet name
+}
+
+export interface SignedMessage {
+  address: string;
+  message: string;
+  signature: string;             // Hex
+}
+
+export type WalletTransferType = 'deposit' | 'withdraw';
+
+// Receipt of funds moved between the wallet and the game balance
+export interface WalletTransfer {
+  id: string;
+  type: WalletTransferType;
+  asset: AssetId;
+  amount: number;
+  address: string;
+  timestamp: number;
+}
+
+export type WalletErrorCode =
+  | 'not-connected'
+  | 'user-rejected'
+  | 'insufficient-funds'
+  | 'invalid-amount'
+  | 'unsupported-asset';
+
+export class WalletError extends Error {
+  readonly code: WalletErrorCode;
+
+  constructor(code: WalletErrorCode, message: string) {
+    super(message);
+    this.name = 'WalletError';
+    this.code = code;
+  }
+}
+
+export interface WalletEvents {
+  connect: WalletAccount;
+  disconnect: undefined;
+  balanceChange: { asset: AssetId; balance: number };
+}
+
+export interface WalletAdapter {
+  readonly name: string;
+
+  connect(): Promise<WalletAccount>;
+  disconnect(): Promise<void>;
+  getAccount(): WalletAccount | null;
+
+  /** On-chain balance held by the wallet, not the game balance */
+  getBalance(asset: AssetId): Promise<number>;
+  signMessage(message: string): Promise<SignedMessage>;
+
+  /** Move `amount` from the wallet into the game; the caller credits the game balance */
+  deposit(asset: AssetId, amount: number): Promise<WalletTransfer>;
+  /** Move `amount` from the game back to the wallet; the caller debits the game balance */
+  withdraw(asset: AssetId, amount: number): Promise<WalletTransfer>;
+
+  /** Subscribe to wallet events. Returns an unsubscribe function. */
+  on<K extends keyof WalletEvents>(event: K, listener: (payload: WalletEvents[K]) => void): () => void;
+}
+
+const ADDRESS_BYTES = 32;
+
+/**
+ * Whether `address` is a Solana address: base58 encoding 32 bytes
+ */
+export const isValidAddress = (address: string): boolean =>
+  address.length >= 32 && address.length <= 44 && decodeBase58(address)?.length === ADDRESS_BYTES;
+
+/**
+ * "7xKX…p3Qz" style short form of an address
+ */
+export const shortenAddress = (address: string, chars = 4): string =>
+  address.length <= chars * 2 + 1 ? address : `${address.slice(0, chars)}…${address.slice(-chars)}`;